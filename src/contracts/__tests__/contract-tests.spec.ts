@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runContractTests } from '../contract-tests';
+import { exportJsonSchemas } from '../export-json-schemas';
+
+describe('runContractTests', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'contracts-'));
+  });
+
+  afterAll(() => rm(directory, { recursive: true, force: true }));
+
+  it('should pass every example producer event', async () => {
+    const results = await runContractTests(join(__dirname, '../../../data/events.json'));
+
+    expect(results).toHaveLength(17);
+    expect(results.filter((result) => !result.passed)).toEqual([]);
+  });
+
+  it('should report failures per event across the files of a directory', async () => {
+    await writeFile(
+      join(directory, 'a.json'),
+      JSON.stringify({
+        eventId: 'event-1',
+        type: 'LIMIT_USER_PENDING_PAYMENT_PROCESSED',
+        createdAt: 1647945426170,
+        payload: { userId: 'user-1', brandId: 'brand-1', paymentId: 'payment-1' },
+      })
+    );
+    await writeFile(
+      join(directory, 'b.json'),
+      JSON.stringify([{ eventId: 'event-2', type: 'USER_LIMIT_RESET', payload: {} }])
+    );
+    await writeFile(join(directory, 'notes.txt'), 'not an example');
+
+    const results = await runContractTests(directory);
+
+    expect(results).toEqual([
+      {
+        file: join(directory, 'a.json'),
+        index: 0,
+        eventId: 'event-1',
+        eventType: 'LIMIT_USER_PENDING_PAYMENT_PROCESSED',
+        passed: true,
+        errors: [],
+      },
+      expect.objectContaining({
+        file: join(directory, 'b.json'),
+        index: 0,
+        eventId: 'event-2',
+        passed: false,
+        errors: expect.arrayContaining(['userId is a required field']),
+      }),
+    ]);
+  });
+
+  it('should write one JSON Schema document per event type and version', async () => {
+    const output = join(directory, 'schemas');
+
+    const summary = await exportJsonSchemas(output);
+
+    expect(summary.incompatible).toEqual([]);
+    expect((await readdir(output)).sort()).toContain('USER_LIMIT_CREATED.v1.json');
+    expect(summary.files).toHaveLength((await readdir(output)).length);
+    const document = JSON.parse(
+      await readFile(join(output, 'LIMIT_USER_CREATED.v1.json'), 'utf-8')
+    ) as { required: string[] };
+    expect(document.required).toContain('jurisdiction');
+  });
+});
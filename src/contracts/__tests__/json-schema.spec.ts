@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import * as yup from 'yup';
+import { eventJsonSchemas, toJsonSchema } from '../json-schema';
+import { checkVersionCompatibility, findIncompatibilities } from '../schema-compatibility';
+import { schemaRegistry } from '../../user-limit/validation/event-schemas';
+import { EventType } from '../../user-limit/models/events';
+import { versionedSchema } from '../../validation/versioned-event-schema';
+
+describe('toJsonSchema', () => {
+  it('should translate fields, required properties and constraints', () => {
+    const schema = yup.object({
+      id: yup.string().required(),
+      note: yup.string().max(20).optional(),
+      kind: yup.string().oneOf(['A', 'B']).required(),
+      count: yup.number().integer().min(0).required(),
+      nested: yup.object({ amount: yup.string().required() }).required(),
+      tags: yup.array(yup.string().matches(/^[a-z]+$/)),
+    });
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        note: { type: 'string', maxLength: 20 },
+        kind: { type: 'string', minLength: 1, enum: ['A', 'B'] },
+        count: { type: 'integer', minimum: 0 },
+        nested: {
+          type: 'object',
+          properties: { amount: { type: 'string', minLength: 1 } },
+          required: ['amount'],
+        },
+        tags: { type: 'array', items: { type: 'string', pattern: '^[a-z]+$' } },
+      },
+      required: ['id', 'kind', 'count', 'nested'],
+    });
+  });
+
+  it('should export a document for every registered event type', () => {
+    const schemas = eventJsonSchemas(schemaRegistry);
+
+    expect(schemas.map((s) => s.eventType).sort()).toEqual(Object.values(EventType).sort());
+    expect(schemas.find((s) => s.eventType === EventType.USER_LIMIT_CREATED)).toMatchObject({
+      version: 1,
+      current: true,
+      schema: {
+        $id: 'USER_LIMIT_CREATED.v1.json',
+        properties: { eventType: { enum: ['USER_LIMIT_CREATED'] } },
+      },
+    });
+  });
+});
+
+describe('findIncompatibilities', () => {
+  const previous = toJsonSchema(
+    yup.object({
+      userId: yup.string().required(),
+      note: yup.string().optional(),
+      kind: yup.string().oneOf(['A', 'B']).required(),
+      amount: yup.number().required(),
+    })
+  );
+
+  it('should accept additive, optional changes', () => {
+    const next = toJsonSchema(
+      yup.object({
+        userId: yup.string().required(),
+        kind: yup.string().oneOf(['A', 'B', 'C']).required(),
+        amount: yup.number().required(),
+        extra: yup.string().optional(),
+      })
+    );
+
+    expect(findIncompatibilities(previous, next)).toEqual([]);
+  });
+
+  it('should flag changes that reject previously valid events', () => {
+    const next = toJsonSchema(
+      yup.object({
+        userId: yup.string().required(),
+        note: yup.string().required(),
+        kind: yup.string().oneOf(['A']).required(),
+        amount: yup.string().required(),
+        brandId: yup.string().required(),
+      })
+    );
+
+    expect(findIncompatibilities(previous, next)).toEqual([
+      { path: 'note', change: 'became required' },
+      { path: 'brandId', change: 'added as required' },
+      { path: 'note', change: 'minLength raised from none to 1' },
+      { path: 'kind', change: 'no longer accepts B' },
+      { path: 'amount', change: 'type changed from number to string' },
+      { path: 'amount', change: 'minLength raised from none to 1' },
+    ]);
+  });
+
+  it('should compare consecutive versions of each event type', () => {
+    const v1 = yup.object({ limit: yup.number().required() });
+    const v2 = yup.object({ value: yup.string().required() });
+    const schemas = eventJsonSchemas({
+      ...schemaRegistry,
+      [EventType.USER_LIMIT_RESET]: versionedSchema(v2, [
+        { version: 1, schema: v1, upcast: ({ limit }) => ({ value: String(limit) }) },
+      ]),
+    });
+
+    expect(
+      checkVersionCompatibility(schemas).filter((step) => step.incompatibilities.length > 0)
+    ).toEqual([
+      {
+        eventType: EventType.USER_LIMIT_RESET,
+        fromVersion: 1,
+        toVersion: 2,
+        incompatibilities: [{ path: 'value', change: 'added as required' }],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { readFile, readdir, stat } from 'fs/promises';
+import { extname, join } from 'path';
+import { validateEvent } from '../user-limit/validation/event-schemas';
+import { normalizeEvent } from '../handlers/event-envelope';
+import { createChildLogger } from '../utils/logger';
+
+const logger = createChildLogger({ service: 'contract-tests' });
+
+export const DEFAULT_EXAMPLES_PATH = 'data';
+
+export interface ContractTestResult {
+  file: string;
+  /** Position of the event in its file */
+  index: number;
+  eventId?: string;
+  eventType?: string;
+  passed: boolean;
+  errors: string[];
+}
+
+/**
+ * Runs example payloads through the same validation the handler applies, so producers
+ * can check their events against the exported contract. `path` is a JSON file or a
+ * directory of JSON files; each file holds one event or an array of events, either as
+ * producer envelopes or flat events.
+ */
+export async function runContractTests(
+  path: string = DEFAULT_EXAMPLES_PATH
+): Promise<ContractTestResult[]> {
+  const results: ContractTestResult[] = [];
+
+  for (const file of await exampleFiles(path)) {
+    const content = JSON.parse(await readFile(file, 'utf-8')) as unknown;
+    const events = Array.isArray(content) ? content : [content];
+
+    for (const [index, event] of events.entries()) {
+      const normalized = normalizeEvent(event) as { eventId?: unknown; eventType?: unknown };
+      const result = await validateEvent(normalized);
+
+      results.push({
+        file,
+        index,
+        eventId: typeof normalized?.eventId === 'string' ? normalized.eventId : undefined,
+        eventType: typeof normalized?.eventType === 'string' ? normalized.eventType : undefined,
+        passed: result.isValid,
+        errors: result.errors ?? [],
+      });
+    }
+  }
+
+  return results;
+}
+
+async function exampleFiles(path: string): Promise<string[]> {
+  if (!(await stat(path)).isDirectory()) {
+    return [path];
+  }
+
+  return (await readdir(path))
+    .filter((name) => extname(name) === '.json')
+    .sort()
+    .map((name) => join(path, name));
+}
+
+if (require.main === module) {
+  runContractTests(process.argv[2])
+    .then((results) => {
+      for (const { passed, ...result } of results) {
+        if (passed) {
+          logger.info(result, 'Contract test passed');
+        } else {
+          logger.error(result, 'Contract test failed');
+        }
+      }
+
+      const failed = results.filter((result) => !result.passed).length;
+      logger.info({ total: results.length, failed }, 'Contract tests finished');
+      process.exitCode = failed > 0 ? 1 : 0;
+    })
+    .catch((error) => {
+      logger.error({ err: error }, 'Fatal error running contract tests');
+      process.exit(1);
+    });
+}
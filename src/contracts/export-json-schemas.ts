@@ -0,0 +1,55 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { schemaRegistry } from '../user-limit/validation/event-schemas';
+import { eventJsonSchemas, schemaFileName } from './json-schema';
+import { VersionCompatibility, checkVersionCompatibility } from './schema-compatibility';
+import { createChildLogger } from '../utils/logger';
+
+const logger = createChildLogger({ service: 'export-json-schemas' });
+
+export const DEFAULT_SCHEMA_OUTPUT_DIRECTORY = 'schemas';
+
+export interface SchemaExportSummary {
+  files: string[];
+  /** Version steps with changes that reject events valid under the previous version */
+  incompatible: VersionCompatibility[];
+}
+
+/**
+ * Writes one JSON Schema document per event type and schema version, named
+ * `<eventType>.v<version>.json`, and flags incompatible changes between versions
+ */
+export async function exportJsonSchemas(
+  outputDirectory: string = DEFAULT_SCHEMA_OUTPUT_DIRECTORY
+): Promise<SchemaExportSummary> {
+  const schemas = eventJsonSchemas(schemaRegistry);
+  await mkdir(outputDirectory, { recursive: true });
+
+  const files: string[] = [];
+  for (const { eventType, version, schema } of schemas) {
+    const file = join(outputDirectory, schemaFileName(eventType, version));
+    await writeFile(file, `${JSON.stringify(schema, null, 2)}\n`, 'utf-8');
+    files.push(file);
+  }
+
+  const incompatible = checkVersionCompatibility(schemas).filter(
+    (step) => step.incompatibilities.length > 0
+  );
+  for (const step of incompatible) {
+    logger.warn(step, 'Incompatible changes between schema versions');
+  }
+
+  logger.info(
+    { outputDirectory, files: files.length, incompatible: incompatible.length },
+    'JSON Schemas exported'
+  );
+
+  return { files, incompatible };
+}
+
+if (require.main === module) {
+  exportJsonSchemas(process.argv[2]).catch((error) => {
+    logger.error({ err: error }, 'Fatal error exporting JSON Schemas');
+    process.exit(1);
+  });
+}
@@ -0,0 +1,178 @@
+import * as yup from 'yup';
+import { EventType } from '../user-limit/models/events';
+import { VersionedEventSchema } from '../validation/versioned-event-schema';
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+export type JsonSchemaType =
+  'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema that the yup schemas in this service translate to
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+export interface EventJsonSchema {
+  eventType: EventType;
+  version: number;
+  /** Whether this is the version producers should write */
+  current: boolean;
+  schema: JsonSchema;
+}
+
+export function schemaFileName(eventType: EventType, version: number): string {
+  return `${eventType}.v${version}.json`;
+}
+
+/**
+ * Translates a yup schema into JSON Schema. Only the constructs used by the event
+ * schemas are mapped; custom tests, refs and lazy schemas are not representable and
+ * are left unconstrained.
+ */
+export function toJsonSchema(schema: yup.Schema): JsonSchema {
+  return fromDescription(schema.describe());
+}
+
+/**
+ * JSON Schema documents for every version of every registered event type. The documents
+ * describe the flat event `validateEvent` accepts; producer envelopes are flattened
+ * before validation (see `normalizeEvent`).
+ */
+export function eventJsonSchemas(
+  registry: Record<EventType, VersionedEventSchema>
+): EventJsonSchema[] {
+  return Object.entries(registry).flatMap(([type, versioned]) => {
+    const eventType = type as EventType;
+    const versions = [
+      ...versioned.previousVersions.map(({ version, schema }) => ({ version, schema })),
+      { version: versioned.currentVersion, schema: versioned.schema },
+    ];
+
+    return versions.map(({ version, schema }) => ({
+      eventType,
+      version,
+      current: version === versioned.currentVersion,
+      schema: {
+        $schema: JSON_SCHEMA_DIALECT,
+        $id: schemaFileName(eventType, version),
+        title: `${eventType} v${version}`,
+        ...toJsonSchema(schema),
+      },
+    }));
+  });
+}
+
+function fromDescription(description: yup.SchemaFieldDescription): JsonSchema {
+  if (!('tests' in description)) {
+    return {};
+  }
+
+  const schema = withType(description);
+
+  const values = description.oneOf.filter((value) => value !== undefined && value !== null);
+  if (values.length > 0) {
+    schema.enum = values;
+  }
+
+  if ('fields' in description) {
+    const entries = Object.entries(description.fields);
+    schema.properties = Object.fromEntries(
+      entries.map(([name, field]) => [name, fromDescription(field)])
+    );
+
+    const required = entries.filter(([, field]) => isRequired(field)).map(([name]) => name);
+    if (required.length > 0) {
+      schema.required = required;
+    }
+  }
+
+  if (
+    'innerType' in description &&
+    description.innerType &&
+    !Array.isArray(description.innerType)
+  ) {
+    schema.items = fromDescription(description.innerType);
+  }
+
+  return schema;
+}
+
+function withType(description: yup.SchemaDescription): JsonSchema {
+  const schema: JsonSchema = {};
+  const hasTest = (name: string): boolean => description.tests.some((test) => test.name === name);
+  const params = (name: string): Record<string, unknown> | undefined =>
+    description.tests.find((test) => test.name === name)?.params as
+      Record<string, unknown> | undefined;
+
+  switch (description.type) {
+    case 'string':
+      schema.type = 'string';
+      schema.minLength =
+        numberParam(params('length'), 'length') ?? numberParam(params('min'), 'min');
+      schema.maxLength =
+        numberParam(params('length'), 'length') ?? numberParam(params('max'), 'max');
+      // yup's required() also rejects empty strings
+      if (schema.minLength === undefined && hasTest('required')) {
+        schema.minLength = 1;
+      }
+      schema.pattern = regexParam(params('matches'));
+      schema.format = hasTest('email') ? 'email' : hasTest('url') ? 'uri' : undefined;
+      break;
+    case 'number':
+      schema.type = hasTest('integer') ? 'integer' : 'number';
+      schema.minimum = numberParam(params('min'), 'min');
+      schema.maximum = numberParam(params('max'), 'max');
+      schema.exclusiveMinimum = numberParam(params('min'), 'more');
+      schema.exclusiveMaximum = numberParam(params('max'), 'less');
+      break;
+    case 'boolean':
+    case 'object':
+    case 'array':
+      schema.type = description.type;
+      break;
+    case 'date':
+      schema.type = 'string';
+      schema.format = 'date-time';
+      break;
+  }
+
+  if (schema.type && description.nullable) {
+    schema.type = [schema.type as JsonSchemaType, 'null'];
+  }
+
+  return Object.fromEntries(
+    Object.entries(schema).filter(([, value]) => value !== undefined)
+  ) as JsonSchema;
+}
+
+function isRequired(description: yup.SchemaFieldDescription): boolean {
+  return 'optional' in description && !description.optional;
+}
+
+function numberParam(params: Record<string, unknown> | undefined, key: string): number | undefined {
+  const value = params?.[key];
+  return typeof value === 'number' ? value : undefined;
+}
+
+function regexParam(params: Record<string, unknown> | undefined): string | undefined {
+  const regex = params?.regex;
+  return regex instanceof RegExp ? regex.source : undefined;
+}
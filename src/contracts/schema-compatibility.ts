@@ -0,0 +1,131 @@
+import { EventJsonSchema, JsonSchema, JsonSchemaType } from './json-schema';
+
+/**
+ * A change after which an event that was valid under the previous schema can be rejected
+ */
+export interface SchemaIncompatibility {
+  /** Dotted path of the affected property, empty for the event itself */
+  path: string;
+  change: string;
+}
+
+export interface VersionCompatibility {
+  eventType: string;
+  fromVersion: number;
+  toVersion: number;
+  incompatibilities: SchemaIncompatibility[];
+}
+
+/**
+ * Lists the changes from `previous` to `next` that reject events the previous schema
+ * accepted: new required properties, narrowed types or enums, and tightened limits.
+ * Removed properties are compatible, since unknown properties are not rejected.
+ */
+export function findIncompatibilities(
+  previous: JsonSchema,
+  next: JsonSchema,
+  path = ''
+): SchemaIncompatibility[] {
+  const found: SchemaIncompatibility[] = [];
+  const flag = (change: string): void => {
+    found.push({ path, change });
+  };
+
+  const previousTypes = typesOf(previous);
+  const nextTypes = typesOf(next);
+  if (nextTypes && (!previousTypes || previousTypes.some((type) => !accepts(nextTypes, type)))) {
+    flag(`type changed from ${previousTypes?.join('|') ?? 'any'} to ${nextTypes.join('|')}`);
+  }
+
+  if (next.enum) {
+    const removed = previous.enum?.filter((value) => !next.enum?.includes(value));
+    if (!previous.enum) {
+      flag(`restricted to ${next.enum.map(String).join(', ')}`);
+    } else if (removed && removed.length > 0) {
+      flag(`no longer accepts ${removed.map(String).join(', ')}`);
+    }
+  }
+
+  if (next.pattern !== undefined && next.pattern !== previous.pattern) {
+    flag(`pattern changed to ${next.pattern}`);
+  }
+  if (next.format !== undefined && next.format !== previous.format) {
+    flag(`format changed to ${next.format}`);
+  }
+
+  for (const key of ['minimum', 'exclusiveMinimum', 'minLength'] as const) {
+    const [before, after] = [previous[key], next[key]];
+    if (after !== undefined && (before === undefined || after > before)) {
+      flag(`${key} raised from ${before ?? 'none'} to ${after}`);
+    }
+  }
+  for (const key of ['maximum', 'exclusiveMaximum', 'maxLength'] as const) {
+    const [before, after] = [previous[key], next[key]];
+    if (after !== undefined && (before === undefined || after < before)) {
+      flag(`${key} lowered from ${before ?? 'none'} to ${after}`);
+    }
+  }
+
+  const previousRequired = new Set(previous.required ?? []);
+  for (const name of next.required ?? []) {
+    if (!previousRequired.has(name)) {
+      found.push({
+        path: join(path, name),
+        change: previous.properties?.[name] ? 'became required' : 'added as required',
+      });
+    }
+  }
+
+  for (const [name, property] of Object.entries(next.properties ?? {})) {
+    const before = previous.properties?.[name];
+    if (before) {
+      found.push(...findIncompatibilities(before, property, join(path, name)));
+    }
+  }
+
+  if (previous.items && next.items) {
+    found.push(...findIncompatibilities(previous.items, next.items, join(path, '[]')));
+  }
+
+  return found;
+}
+
+/**
+ * Compares every registered schema version with the version before it
+ */
+export function checkVersionCompatibility(schemas: EventJsonSchema[]): VersionCompatibility[] {
+  const sorted = [...schemas].sort(
+    (a, b) => a.eventType.localeCompare(b.eventType) || a.version - b.version
+  );
+
+  return sorted.slice(1).flatMap((next, index) => {
+    const previous = sorted[index];
+    if (previous.eventType !== next.eventType) {
+      return [];
+    }
+
+    return [
+      {
+        eventType: next.eventType,
+        fromVersion: previous.version,
+        toVersion: next.version,
+        incompatibilities: findIncompatibilities(previous.schema, next.schema),
+      },
+    ];
+  });
+}
+
+function typesOf(schema: JsonSchema): JsonSchemaType[] | undefined {
+  if (schema.type === undefined) {
+    return undefined;
+  }
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function accepts(types: JsonSchemaType[], type: JsonSchemaType): boolean {
+  return types.includes(type) || (type === 'integer' && types.includes('number'));
+}
+
+function join(path: string, name: string): string {
+  return path === '' ? name : `${path}.${name}`;
+}
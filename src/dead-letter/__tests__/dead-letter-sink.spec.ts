@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DeadLetterEntry,
+  IDeadLetterSink,
+  InMemoryDeadLetterSink,
+  describeErrorChain,
+} from '../dead-letter-sink';
+import { FileDeadLetterSink } from '../file-dead-letter-sink';
+import { SQSDeadLetterSink } from '../sqs-dead-letter-sink';
+import { ProcessingError, UserLimitNotFoundError } from '../../types/errors';
+import { SQSLocal, startSQSLocal } from '../../test-utils/sqs-local';
+import { createMockKinesisRecord } from '../../handlers/__tests__/test-helpers';
+
+function createEntry(index: number): DeadLetterEntry {
+  return {
+    record: createMockKinesisRecord(index),
+    payload: { eventId: `event-${index}` },
+    errors: describeErrorChain(new ProcessingError('Unknown error', new Error('Boom'))),
+    attempts: { count: 3, maxAttempts: 3, firstFailedAt: 1000, lastFailedAt: 3000 },
+    deadLetteredAt: 3000,
+  };
+}
+
+function describeSink(
+  name: string,
+  setup: () => Promise<{ sink: IDeadLetterSink; read: () => Promise<DeadLetterEntry[]> }>
+): void {
+  describe(name, () => {
+    it('should keep every entry in the order it was sent', async () => {
+      const { sink, read } = await setup();
+
+      const first = createEntry(0);
+      await sink.send(first);
+      await sink.send(createEntry(1));
+
+      const entries = await read();
+      expect(entries).toHaveLength(2);
+      expect(entries.map((e) => e.record.kinesis.sequenceNumber)).toEqual(['0', '1']);
+      expect(entries[0]).toEqual(JSON.parse(JSON.stringify(first)));
+    });
+  });
+}
+
+describe('DeadLetterSink', () => {
+  describeSink('InMemoryDeadLetterSink', () => {
+    const sink = new InMemoryDeadLetterSink();
+    return Promise.resolve({
+      sink,
+      read: () => Promise.resolve(JSON.parse(JSON.stringify(sink.entries)) as DeadLetterEntry[]),
+    });
+  });
+
+  describe('with a temporary directory', () => {
+    let directory: string;
+
+    beforeAll(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'dead-letter-'));
+    });
+
+    afterAll(() => rm(directory, { recursive: true, force: true }));
+
+    let fileIndex = 0;
+    describeSink('FileDeadLetterSink', () => {
+      const filePath = join(directory, `nested-${fileIndex++}`, 'records.ndjson');
+      return Promise.resolve({
+        sink: new FileDeadLetterSink(filePath),
+        read: async () =>
+          (await readFile(filePath, 'utf-8'))
+            .trim()
+            .split('\n')
+            .map((line) => JSON.parse(line) as DeadLetterEntry),
+      });
+    });
+  });
+
+  describe('with a local SQS stand-in', () => {
+    let sqs: SQSLocal;
+
+    beforeAll(async () => {
+      sqs = await startSQSLocal();
+    });
+
+    afterAll(async () => {
+      await sqs.stop();
+    });
+
+    let queueIndex = 0;
+    describeSink('SQSDeadLetterSink', () => {
+      const queueName = `dead-letter-${queueIndex++}`;
+      return Promise.resolve({
+        sink: new SQSDeadLetterSink(sqs.queueUrl(queueName), sqs.client),
+        read: () =>
+          Promise.resolve(
+            sqs.messages(queueName).map((body) => JSON.parse(body) as DeadLetterEntry)
+          ),
+      });
+    });
+  });
+
+  describe('describeErrorChain', () => {
+    it('should follow ProcessingError.originalError and cause', () => {
+      const root = new UserLimitNotFoundError('limit-1');
+      const wrapped = new Error('Update failed', { cause: root });
+
+      const chain = describeErrorChain(new ProcessingError('Unknown error', wrapped));
+
+      expect(chain.map(({ name, message }) => ({ name, message }))).toEqual([
+        { name: 'ProcessingError', message: 'Unknown error' },
+        { name: 'Error', message: 'Update failed' },
+        { name: 'UserLimitNotFoundError', message: 'UserLimit with id limit-1 not found' },
+      ]);
+      expect(chain[0].stack).toContain('ProcessingError');
+    });
+
+    it('should describe thrown values that are not errors', () => {
+      expect(describeErrorChain(new ProcessingError('Unknown error', 'boom'))[1]).toEqual({
+        name: 'string',
+        message: 'boom',
+      });
+    });
+  });
+});
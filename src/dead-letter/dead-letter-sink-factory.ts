@@ -0,0 +1,46 @@
+import { IDeadLetterSink, InMemoryDeadLetterSink } from './dead-letter-sink';
+import { FileDeadLetterSink } from './file-dead-letter-sink';
+import { SQSDeadLetterSink } from './sqs-dead-letter-sink';
+import { createChildLogger } from '../utils/logger';
+
+const logger = createChildLogger({ service: 'dead-letter-sink-factory' });
+
+export type DeadLetterSinkType = 'none' | 'inmemory' | 'file' | 'sqs';
+
+const DEFAULT_DEAD_LETTER_FILE_PATH = 'dead-letter/records.ndjson';
+
+/**
+ * Factory function to create a DeadLetterSink based on environment configuration
+ *
+ * Environment Variables:
+ * - DEAD_LETTER_SINK_TYPE: 'none' | 'inmemory' | 'file' | 'sqs' (default: 'none')
+ * - DEAD_LETTER_FILE_PATH: NDJSON file for the file sink (default: 'dead-letter/records.ndjson')
+ * - DEAD_LETTER_QUEUE_URL: queue URL (required if using sqs)
+ */
+export function createDeadLetterSink(): IDeadLetterSink | undefined {
+  const sinkType = (
+    process.env.DEAD_LETTER_SINK_TYPE || 'none'
+  ).toLowerCase() as DeadLetterSinkType;
+
+  switch (sinkType) {
+    case 'none':
+      return undefined;
+    case 'inmemory':
+      return new InMemoryDeadLetterSink();
+    case 'file':
+      return new FileDeadLetterSink(
+        process.env.DEAD_LETTER_FILE_PATH || DEFAULT_DEAD_LETTER_FILE_PATH
+      );
+    case 'sqs': {
+      const queueUrl = process.env.DEAD_LETTER_QUEUE_URL;
+      if (!queueUrl) {
+        logger.warn({}, 'DEAD_LETTER_QUEUE_URL not set, dead-letter sink disabled');
+        return undefined;
+      }
+      return new SQSDeadLetterSink(queueUrl);
+    }
+    default:
+      logger.warn({ sinkType }, 'Unknown dead-letter sink type, dead-letter sink disabled');
+      return undefined;
+  }
+}
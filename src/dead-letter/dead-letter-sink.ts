@@ -0,0 +1,77 @@
+import { KinesisStreamRecord } from 'aws-lambda';
+import { ProcessingError } from '../types/errors';
+
+const MAX_ERROR_CHAIN_DEPTH = 10;
+
+export interface DeadLetterError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+export interface DeadLetterAttempts {
+  /** Number of failed attempts, including the one that routed the record here */
+  count: number;
+  maxAttempts: number;
+  firstFailedAt: number;
+  lastFailedAt: number;
+}
+
+/**
+ * Everything needed to inspect or replay a record that kept failing
+ */
+export interface DeadLetterEntry {
+  /** The Kinesis record as received, including the base64 encoded data */
+  record: KinesisStreamRecord;
+  /** Decoded JSON payload, absent when the data could not be decoded */
+  payload?: unknown;
+  /** Error chain, outermost error first */
+  errors: DeadLetterError[];
+  /** Stable code of the error that failed the record, e.g. 'USER_LIMIT_EXCEEDED' */
+  errorCode?: string;
+  attempts: DeadLetterAttempts;
+  deadLetteredAt: number;
+}
+
+/**
+ * Destination for records that failed `maxAttempts` times
+ */
+export interface IDeadLetterSink {
+  send(entry: DeadLetterEntry): Promise<void>;
+}
+
+/**
+ * Keeps dead-lettered entries in memory - for tests and local runs
+ */
+export class InMemoryDeadLetterSink implements IDeadLetterSink {
+  readonly entries: DeadLetterEntry[] = [];
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async send(entry: DeadLetterEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+}
+
+/**
+ * Flattens an error and the errors it wraps - `ProcessingError.originalError` or the
+ * standard `cause` - into a serializable list.
+ */
+export function describeErrorChain(error: unknown): DeadLetterError[] {
+  const chain: DeadLetterError[] = [];
+  const seen = new Set<unknown>();
+  let current: unknown = error;
+
+  while (current !== undefined && !seen.has(current) && chain.length < MAX_ERROR_CHAIN_DEPTH) {
+    seen.add(current);
+
+    if (!(current instanceof Error)) {
+      chain.push({ name: typeof current, message: String(current) });
+      break;
+    }
+
+    chain.push({ name: current.name, message: current.message, stack: current.stack });
+    current = current instanceof ProcessingError ? current.originalError : current.cause;
+  }
+
+  return chain;
+}
@@ -0,0 +1,15 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { DeadLetterEntry, IDeadLetterSink } from './dead-letter-sink';
+
+/**
+ * Appends every entry as one JSON line (NDJSON) to a local file
+ */
+export class FileDeadLetterSink implements IDeadLetterSink {
+  constructor(private readonly filePath: string) {}
+
+  async send(entry: DeadLetterEntry): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+  }
+}
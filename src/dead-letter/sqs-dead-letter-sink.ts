@@ -0,0 +1,24 @@
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import { DeadLetterEntry, IDeadLetterSink } from './dead-letter-sink';
+
+/**
+ * Sends every entry as a JSON message to an SQS queue. The queue URL doubles as the
+ * endpoint, so a local stand-in (e.g. ElasticMQ) works by pointing the URL at it.
+ */
+export class SQSDeadLetterSink implements IDeadLetterSink {
+  constructor(
+    private readonly queueUrl: string,
+    private readonly client: SQSClient = new SQSClient({
+      region: process.env.AWS_REGION || 'us-east-1',
+    })
+  ) {}
+
+  async send(entry: DeadLetterEntry): Promise<void> {
+    await this.client.send(
+      new SendMessageCommand({
+        QueueUrl: this.queueUrl,
+        MessageBody: JSON.stringify(entry),
+      })
+    );
+  }
+}
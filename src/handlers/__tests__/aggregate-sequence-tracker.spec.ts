@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { AggregateSequenceTracker } from '../aggregate-sequence-tracker';
+
+describe('AggregateSequenceTracker', () => {
+  it('should report no gap for the first and consecutive events', () => {
+    const tracker = new AggregateSequenceTracker();
+
+    expect(tracker.observe('agg-1', 5).gap).toBe(0);
+    expect(tracker.observe('agg-1', 6)).toEqual({
+      gap: 0,
+      outOfOrder: false,
+      lastSequenceNumber: 5,
+    });
+  });
+
+  it('should report the number of missing sequence numbers', () => {
+    const tracker = new AggregateSequenceTracker();
+
+    tracker.observe('agg-1', 1);
+
+    expect(tracker.observe('agg-1', 4).gap).toBe(2);
+  });
+
+  it('should flag events that are not newer than the last one seen', () => {
+    const tracker = new AggregateSequenceTracker();
+
+    tracker.observe('agg-1', 4);
+
+    expect(tracker.observe('agg-1', 3)).toEqual({
+      gap: 0,
+      outOfOrder: true,
+      lastSequenceNumber: 4,
+    });
+    expect(tracker.observe('agg-1', 5).gap).toBe(0);
+  });
+
+  it('should track aggregates independently', () => {
+    const tracker = new AggregateSequenceTracker();
+
+    tracker.observe('agg-1', 1);
+    tracker.observe('agg-2', 7);
+
+    expect(tracker.observe('agg-1', 2).gap).toBe(0);
+    expect(tracker.observe('agg-2', 8).gap).toBe(0);
+  });
+
+  it('should evict the least recently seen aggregate', () => {
+    const tracker = new AggregateSequenceTracker(2);
+
+    tracker.observe('agg-1', 1);
+    tracker.observe('agg-2', 1);
+    tracker.observe('agg-1', 2);
+    tracker.observe('agg-3', 1);
+
+    expect(tracker.observe('agg-1', 3).lastSequenceNumber).toBe(2);
+    expect(tracker.observe('agg-2', 5).lastSequenceNumber).toBeUndefined();
+  });
+});
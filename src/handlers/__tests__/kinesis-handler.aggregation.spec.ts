@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KinesisHandler } from '../kinesis-handler';
+import { deaggregate } from '../kpl-aggregation';
+import { userRecordId } from '../user-record';
+import {
+  createAggregatedKinesisRecord,
+  createMockEventProcessors,
+  createMockKinesisRecord,
+} from './test-helpers';
+import { InMemoryDeadLetterSink } from '../../dead-letter/dead-letter-sink';
+import { InMemoryQuarantineStore } from '../../quarantine/quarantine-store';
+import { AggregatedRecordError } from '../../types/errors';
+
+describe('deaggregate', () => {
+  it('should unpack user records with their partition keys and sub-sequence numbers', () => {
+    const userRecords = [
+      createMockKinesisRecord(0, { userId: 'user-a' }),
+      createMockKinesisRecord(1, { userId: 'user-b' }),
+      createMockKinesisRecord(2, { userId: 'user-a' }),
+    ];
+    const aggregated = createAggregatedKinesisRecord('100', userRecords);
+
+    const unpacked = deaggregate(aggregated);
+
+    expect(unpacked.map((r) => r.kinesis)).toMatchObject(
+      userRecords.map((r, index) => ({
+        sequenceNumber: '100',
+        subSequenceNumber: index,
+        partitionKey: r.kinesis.partitionKey,
+        data: r.kinesis.data,
+      }))
+    );
+    expect(unpacked.map(userRecordId)).toEqual([
+      'shardId-000000000000:100#0',
+      'shardId-000000000000:100#1',
+      'shardId-000000000000:100#2',
+    ]);
+  });
+
+  it('should return records that are not aggregated unchanged', () => {
+    const record = createMockKinesisRecord(0);
+
+    expect(deaggregate(record)).toEqual([record]);
+  });
+
+  it('should reject aggregated records with a wrong checksum', () => {
+    const aggregated = createAggregatedKinesisRecord('100', [createMockKinesisRecord(0)]);
+    const data = Buffer.from(aggregated.kinesis.data, 'base64');
+    data[data.length - 1] ^= 0xff;
+    aggregated.kinesis.data = data.toString('base64');
+
+    expect(() => deaggregate(aggregated)).toThrow(AggregatedRecordError);
+  });
+});
+
+describe('KinesisHandler - KPL aggregation', () => {
+  let handler: KinesisHandler;
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProcessors = createMockEventProcessors();
+    handler = new KinesisHandler(mockProcessors.processors);
+  });
+
+  it('should process every user record of an aggregated record', async () => {
+    const aggregated = createAggregatedKinesisRecord('100', [
+      createMockKinesisRecord(0, { eventId: 'event-a' }),
+      createMockKinesisRecord(1, { eventId: 'event-b' }),
+    ]);
+
+    const result = await handler.processBatch([aggregated, createMockKinesisRecord(2)]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(
+      mockProcessors.userLimitService.processEvent.mock.calls.map(
+        ([event]) => (event as { eventId: string }).eventId
+      )
+    ).toEqual(['event-a', 'event-b', 'event-2']);
+  });
+
+  it('should report a failed user record once, with the parent sequence number', async () => {
+    mockProcessors.userLimitService.processEvent.mockImplementation((event: { userId: string }) =>
+      event.userId === 'user-0' ? Promise.resolve() : Promise.reject(new Error('Failed'))
+    );
+    const aggregated = createAggregatedKinesisRecord('100', [
+      createMockKinesisRecord(0),
+      createMockKinesisRecord(1),
+      createMockKinesisRecord(2),
+    ]);
+
+    const result = await handler.processBatch([aggregated]);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '100' }]);
+  });
+
+  it('should keep the order of user records per partition key across aggregates', async () => {
+    handler = new KinesisHandler(mockProcessors.processors, { failureMode: 'checkpoint' });
+    mockProcessors.userLimitService.processEvent.mockRejectedValueOnce(new Error('Failed'));
+    const records = [
+      createAggregatedKinesisRecord('100', [
+        createMockKinesisRecord(0, { userId: 'user-a' }),
+        createMockKinesisRecord(1, { userId: 'user-b' }),
+      ]),
+      createAggregatedKinesisRecord('101', [createMockKinesisRecord(2, { userId: 'user-a' })]),
+    ];
+
+    const result = await handler.processBatch(records);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '100' }]);
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(2);
+    expect(mockProcessors.userLimitService.processEvent).not.toHaveBeenCalledWith(
+      expect.objectContaining({ eventId: 'event-2' })
+    );
+  });
+
+  it('should count failures per user record before dead-lettering', async () => {
+    const sink = new InMemoryDeadLetterSink();
+    handler = new KinesisHandler(mockProcessors.processors, {
+      deadLetterSink: sink,
+      maxAttempts: 2,
+    });
+    mockProcessors.userLimitService.processEvent.mockRejectedValue(new Error('Failed'));
+    const aggregated = createAggregatedKinesisRecord('100', [
+      createMockKinesisRecord(0),
+      createMockKinesisRecord(1),
+    ]);
+
+    const first = await handler.processBatch([aggregated]);
+    const second = await handler.processBatch([aggregated]);
+
+    expect(first.batchItemFailures).toEqual([{ itemIdentifier: '100' }]);
+    expect(second.batchItemFailures).toEqual([]);
+    expect(sink.entries.map((e) => e.attempts.count)).toEqual([2, 2]);
+    expect(sink.entries.map((e) => e.payload)).toEqual([
+      expect.objectContaining({ eventId: 'event-0' }),
+      expect.objectContaining({ eventId: 'event-1' }),
+    ]);
+  });
+
+  it('should quarantine aggregated records that fail the checksum', async () => {
+    const store = new InMemoryQuarantineStore();
+    handler = new KinesisHandler(mockProcessors.processors, { quarantineStore: store });
+    const aggregated = createAggregatedKinesisRecord('100', [createMockKinesisRecord(0)]);
+    const data = Buffer.from(aggregated.kinesis.data, 'base64');
+    data[data.length - 1] ^= 0xff;
+    aggregated.kinesis.data = data.toString('base64');
+
+    const result = await handler.processBatch([aggregated]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(mockProcessors.userLimitService.processEvent).not.toHaveBeenCalled();
+    const [entry] = await store.list();
+    expect(entry).toMatchObject({
+      reason: 'malformed-aggregate',
+      errors: ['Invalid KPL aggregated record: checksum mismatch'],
+      record: aggregated,
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KinesisHandler } from '../kinesis-handler';
+import { createMockKinesisRecord, createMockEventProcessors } from './test-helpers';
+
+describe('KinesisHandler - Checkpoint Failure Mode', () => {
+  let handler: KinesisHandler;
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+
+  const failOn = (...limitIds: string[]): void => {
+    mockProcessors.userLimitService.processEvent.mockImplementation(
+      (event: { userLimitId?: string }) => {
+        if (limitIds.includes(event.userLimitId as string)) {
+          throw new Error('Processing failed');
+        }
+        return Promise.resolve();
+      }
+    );
+  };
+
+  const processedIds = (): string[] =>
+    mockProcessors.userLimitService.processEvent.mock.calls.map(
+      ([event]) => (event as { userLimitId: string }).userLimitId
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProcessors = createMockEventProcessors();
+    handler = new KinesisHandler(mockProcessors.processors, { failureMode: 'checkpoint' });
+  });
+
+  it('should not apply records after a failure for the same partition key', async () => {
+    failOn('limit-1');
+
+    const records = [0, 1, 2, 3].map((i) => createMockKinesisRecord(i, { userId: 'user-a' }));
+
+    const result = await handler.processBatch(records);
+
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(2);
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '1' }]);
+  });
+
+  it('should not start records of other partition keys past the shard checkpoint', async () => {
+    handler = new KinesisHandler(mockProcessors.processors, {
+      failureMode: 'checkpoint',
+      maxConcurrency: 1,
+    });
+    failOn('limit-0');
+
+    const records = [
+      createMockKinesisRecord(0, { userId: 'user-a' }),
+      createMockKinesisRecord(1, { userId: 'user-b' }),
+      createMockKinesisRecord(2, { userId: 'user-a' }),
+      createMockKinesisRecord(3, { userId: 'user-b' }),
+    ];
+
+    const result = await handler.processBatch(records);
+
+    expect(processedIds()).toEqual(['limit-0']);
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '0' }]);
+  });
+
+  it('should keep applying records of other partition keys before the checkpoint', async () => {
+    handler = new KinesisHandler(mockProcessors.processors, {
+      failureMode: 'checkpoint',
+      maxConcurrency: 1,
+    });
+    failOn('limit-2');
+
+    const records = [
+      createMockKinesisRecord(0, { userId: 'user-a' }),
+      createMockKinesisRecord(1, { userId: 'user-b' }),
+      createMockKinesisRecord(2, { userId: 'user-a' }),
+      createMockKinesisRecord(3, { userId: 'user-b' }),
+    ];
+
+    const result = await handler.processBatch(records);
+
+    expect(processedIds()).toEqual(['limit-0', 'limit-2', 'limit-1']);
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '2' }]);
+  });
+
+  it('should report only the lowest failed sequence number per shard', async () => {
+    failOn('limit-1', 'limit-2');
+
+    const records = [
+      createMockKinesisRecord(0, { userId: 'user-a' }),
+      createMockKinesisRecord(1, { userId: 'user-b' }),
+      createMockKinesisRecord(2, { userId: 'user-a' }),
+    ];
+
+    const result = await handler.processBatch(records);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '1' }]);
+  });
+
+  it('should report one checkpoint for each shard', async () => {
+    failOn('limit-1', 'limit-2');
+
+    const records = [0, 1, 2].map((i) => createMockKinesisRecord(i, { userId: `user-${i}` }));
+    records[2].eventID = 'shardId-000000000001:event-2';
+
+    const result = await handler.processBatch(records);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '1' }, { itemIdentifier: '2' }]);
+  });
+
+  it('should return empty batchItemFailures when all records succeed', async () => {
+    const records = [0, 1, 2].map((i) => createMockKinesisRecord(i, { userId: 'user-a' }));
+
+    const result = await handler.processBatch(records);
+
+    expect(result.batchItemFailures).toEqual([]);
+  });
+});
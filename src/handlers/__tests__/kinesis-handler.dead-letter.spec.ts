@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KinesisHandler } from '../kinesis-handler';
+import { createMockKinesisRecord, createMockEventProcessors } from './test-helpers';
+import { InMemoryDeadLetterSink } from '../../dead-letter/dead-letter-sink';
+
+describe('KinesisHandler - Dead-letter sink', () => {
+  let handler: KinesisHandler;
+  let sink: InMemoryDeadLetterSink;
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProcessors = createMockEventProcessors();
+    sink = new InMemoryDeadLetterSink();
+    handler = new KinesisHandler(mockProcessors.processors, {
+      deadLetterSink: sink,
+      maxAttempts: 2,
+    });
+  });
+
+  it('should report failures for retry until maxAttempts is reached', async () => {
+    mockProcessors.userLimitService.processEvent.mockRejectedValue(new Error('Failed'));
+    const record = createMockKinesisRecord(0);
+
+    const first = await handler.processBatch([record]);
+    const second = await handler.processBatch([record]);
+
+    expect(first.batchItemFailures).toEqual([{ itemIdentifier: '0' }]);
+    expect(second.batchItemFailures).toEqual([]);
+    expect(sink.entries).toHaveLength(1);
+  });
+
+  it('should capture the record, payload, error chain and attempts', async () => {
+    mockProcessors.userLimitService.processEvent.mockRejectedValue(new Error('Database down'));
+    const record = createMockKinesisRecord(0, { eventId: 'event-a' });
+
+    await handler.processBatch([record]);
+    await handler.processBatch([record]);
+
+    const [entry] = sink.entries;
+    expect(entry.record).toBe(record);
+    expect(entry.payload).toMatchObject({ eventId: 'event-a', userId: 'user-0' });
+    expect(entry.errors.map((e) => e.message)).toEqual(['Unknown error', 'Database down']);
+    expect(entry.attempts).toMatchObject({ count: 2, maxAttempts: 2 });
+    expect(entry.attempts.firstFailedAt).toBeLessThanOrEqual(entry.attempts.lastFailedAt);
+  });
+
+  it('should keep applying later records of the partition key in checkpoint mode', async () => {
+    handler = new KinesisHandler(mockProcessors.processors, {
+      deadLetterSink: sink,
+      maxAttempts: 1,
+      failureMode: 'checkpoint',
+    });
+    mockProcessors.userLimitService.processEvent.mockRejectedValueOnce(new Error('Failed'));
+    const records = [
+      createMockKinesisRecord(0, { userId: 'user-a' }),
+      createMockKinesisRecord(1, { userId: 'user-a' }),
+    ];
+
+    const result = await handler.processBatch(records);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(2);
+    expect(sink.entries.map((e) => e.record.kinesis.sequenceNumber)).toEqual(['0']);
+  });
+
+  it('should start counting again after a record succeeds', async () => {
+    mockProcessors.userLimitService.processEvent
+      .mockRejectedValueOnce(new Error('Failed'))
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Failed'));
+    const record = createMockKinesisRecord(0);
+
+    await handler.processBatch([record]);
+    await handler.processBatch([record]);
+    const result = await handler.processBatch([record]);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '0' }]);
+    expect(sink.entries).toEqual([]);
+  });
+
+  it('should keep reporting the record when the sink fails', async () => {
+    mockProcessors.userLimitService.processEvent.mockRejectedValue(new Error('Failed'));
+    vi.spyOn(sink, 'send').mockRejectedValue(new Error('Sink unavailable'));
+    const record = createMockKinesisRecord(0);
+
+    await handler.processBatch([record]);
+    const result = await handler.processBatch([record]);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '0' }]);
+  });
+
+  it('should not dead-letter without a sink', async () => {
+    handler = new KinesisHandler(mockProcessors.processors, { maxAttempts: 1 });
+    mockProcessors.userLimitService.processEvent.mockRejectedValue(new Error('Failed'));
+
+    const result = await handler.processBatch([createMockKinesisRecord(0)]);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '0' }]);
+  });
+});
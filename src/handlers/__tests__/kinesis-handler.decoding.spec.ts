@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KinesisStreamRecord } from 'aws-lambda';
+import { deflateRawSync, deflateSync, gzipSync } from 'zlib';
+import { KinesisHandler } from '../kinesis-handler';
+import {
+  DEFAULT_DECODERS,
+  RecordDecoder,
+  createDecoders,
+  decodePayloads,
+} from '../record-decoders';
+import { createMockEventProcessors, createMockKinesisRecord } from './test-helpers';
+import { InMemoryQuarantineStore } from '../../quarantine/quarantine-store';
+import { DecodingError, DecompressionError, UnsupportedEncodingError } from '../../types/errors';
+
+function eventJson(record: KinesisStreamRecord): string {
+  return Buffer.from(record.kinesis.data, 'base64').toString('utf-8');
+}
+
+function withData(record: KinesisStreamRecord, data: Buffer): KinesisStreamRecord {
+  return { ...record, kinesis: { ...record.kinesis, data: data.toString('base64') } };
+}
+
+function decode(data: Buffer): string[] {
+  return decodePayloads(data, DEFAULT_DECODERS).map((payload) => payload.toString('utf-8'));
+}
+
+describe('decodePayloads', () => {
+  const json = '{"eventId":"event-1"}';
+
+  it('should leave plain and pretty-printed JSON as a single payload', () => {
+    const pretty = JSON.stringify({ eventId: 'event-1' }, null, 2);
+
+    expect(decode(Buffer.from(json))).toEqual([json]);
+    expect(decode(Buffer.from(pretty))).toEqual([pretty]);
+  });
+
+  it('should decompress gzip and deflate payloads by their magic bytes', () => {
+    expect(decode(gzipSync(json))).toEqual([json]);
+    expect(decode(deflateSync(json))).toEqual([json]);
+  });
+
+  it('should decompress payloads that declare their encoding in a header', () => {
+    const header = (contentEncoding: string, data: Buffer): Buffer =>
+      Buffer.from(JSON.stringify({ contentEncoding, data: data.toString('base64') }));
+
+    expect(decode(header('gzip', gzipSync(json)))).toEqual([json]);
+    expect(decode(header('deflate', deflateRawSync(json)))).toEqual([json]);
+    expect(() => decode(header('br', Buffer.from(json)))).toThrow(UnsupportedEncodingError);
+  });
+
+  it('should split newline-delimited JSON, also when compressed', () => {
+    const ndjson = `${json}\n{"eventId":"event-2"}\n`;
+
+    expect(decode(Buffer.from(ndjson))).toEqual([json, '{"eventId":"event-2"}']);
+    expect(decode(gzipSync(ndjson))).toEqual([json, '{"eventId":"event-2"}']);
+  });
+
+  it('should surface an error per decoding step', () => {
+    const corrupt = gzipSync(json).subarray(0, 12);
+
+    expect(() => decode(corrupt)).toThrow(DecompressionError);
+    expect(() => decode(corrupt)).toThrow(/Invalid gzip payload/);
+  });
+
+  it('should reject payloads that decompress past maxOutputLength', () => {
+    const decoders = createDecoders({ maxOutputLength: 64 });
+    const large = Buffer.from(JSON.stringify({ eventId: 'x'.repeat(1000) }));
+    const header = Buffer.from(
+      JSON.stringify({ contentEncoding: 'deflate', data: deflateRawSync(large).toString('base64') })
+    );
+
+    for (const data of [gzipSync(large), deflateSync(large), header]) {
+      expect(() => decodePayloads(data, decoders)).toThrow(DecompressionError);
+      expect(() => decodePayloads(data, decoders)).toThrow(/exceeds 64 bytes/);
+    }
+    expect(decodePayloads(gzipSync(json), decoders)).toEqual([Buffer.from(json)]);
+  });
+
+  it('should stop payloads that keep decoding', () => {
+    let nested = Buffer.from(json);
+    for (let i = 0; i < 6; i++) {
+      nested = gzipSync(nested);
+    }
+
+    expect(() => decode(nested)).toThrow(DecodingError);
+  });
+});
+
+describe('KinesisHandler - Payload decoding', () => {
+  let handler: KinesisHandler;
+  let store: InMemoryQuarantineStore;
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+
+  const processedEventIds = (): string[] =>
+    mockProcessors.userLimitService.processEvent.mock.calls.map(
+      ([event]) => (event as { eventId: string }).eventId
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProcessors = createMockEventProcessors();
+    store = new InMemoryQuarantineStore();
+    handler = new KinesisHandler(mockProcessors.processors, { quarantineStore: store });
+  });
+
+  it('should apply every event of a compressed NDJSON record', async () => {
+    const events = [0, 1, 2].map((i) => eventJson(createMockKinesisRecord(i)));
+    const record = withData(createMockKinesisRecord(0), gzipSync(events.join('\n')));
+
+    const result = await handler.processBatch([record]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(processedEventIds()).toEqual(['event-0', 'event-1', 'event-2']);
+  });
+
+  it('should report a failed event with the sequence number of its record', async () => {
+    mockProcessors.userLimitService.processEvent
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Failed'));
+    const events = [0, 1].map((i) => eventJson(createMockKinesisRecord(i)));
+    const record = withData(
+      createMockKinesisRecord(5, { sequenceNumber: '500' }),
+      Buffer.from(events.join('\n'))
+    );
+
+    const result = await handler.processBatch([record]);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '500' }]);
+  });
+
+  it('should quarantine only the line of a batch that is not valid JSON', async () => {
+    const valid = eventJson(createMockKinesisRecord(0));
+    const record = withData(createMockKinesisRecord(0), Buffer.from(`${valid}\n{"eventId":`));
+
+    await handler.processBatch([record]);
+
+    expect(processedEventIds()).toEqual(['event-0']);
+    const [entry] = await store.list();
+    expect(entry).toMatchObject({
+      reason: 'malformed-json',
+      coordinates: { eventIndex: 1 },
+      record: { kinesis: { eventIndex: 1, data: Buffer.from('{"eventId":').toString('base64') } },
+    });
+  });
+
+  it('should quarantine records that cannot be decompressed', async () => {
+    const compressed = gzipSync(eventJson(createMockKinesisRecord(0)));
+    const record = withData(createMockKinesisRecord(0), compressed.subarray(0, 12));
+
+    const result = await handler.processBatch([record]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    const [entry] = await store.list();
+    expect(entry.reason).toBe('malformed-encoding');
+    expect(entry.errors[0]).toMatch(/^Invalid gzip payload/);
+    expect(entry.record).toBe(record);
+  });
+
+  it('should quarantine records that decompress past the configured limit', async () => {
+    handler = new KinesisHandler(mockProcessors.processors, {
+      quarantineStore: store,
+      decoders: createDecoders({ maxOutputLength: 64 }),
+    });
+    const record = withData(
+      createMockKinesisRecord(0),
+      gzipSync(eventJson(createMockKinesisRecord(0)))
+    );
+
+    const result = await handler.processBatch([record]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(processedEventIds()).toEqual([]);
+    const [entry] = await store.list();
+    expect(entry.reason).toBe('malformed-encoding');
+    expect(entry.errors[0]).toBe('Invalid gzip payload: decompressed size exceeds 64 bytes');
+  });
+
+  it('should use the configured decoder chain', async () => {
+    const reversed: RecordDecoder = {
+      name: 'reversed',
+      matches: (data) => data[0] === 0x7d,
+      decode: (data) => [Buffer.from(data).reverse()],
+    };
+    handler = new KinesisHandler(mockProcessors.processors, { decoders: [reversed] });
+    const json = eventJson(createMockKinesisRecord(0));
+    const record = withData(createMockKinesisRecord(0), Buffer.from(json).reverse());
+
+    await handler.processBatch([record]);
+
+    expect(processedEventIds()).toEqual(['event-0']);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KinesisStreamRecord } from 'aws-lambda';
+import { KinesisHandler } from '../kinesis-handler';
+import { createMockKinesisRecord, createMockEventProcessors } from './test-helpers';
+import { normalizeEvent } from '../event-envelope';
+import { EventType } from '../../user-limit/models/events';
+import { LogContext, getLogContext } from '../../utils/logger';
+
+const CREATED_AT = 1647946090594;
+
+function createEnvelope(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    aggregateId: 'aggregate-1',
+    context: { correlationId: 'correlation-1' },
+    createdAt: CREATED_AT,
+    eventId: 'event-1',
+    payload: {
+      activeFrom: 1647946090592,
+      brandId: 'brand-1',
+      currencyCode: 'SEK',
+      period: 'DAY',
+      status: 'ACTIVE',
+      type: 'DEPOSIT',
+      userId: 'user-1',
+      userLimitId: 'limit-1',
+      value: '10000',
+    },
+    sequenceNumber: 3,
+    source: 'limitUser',
+    type: EventType.USER_LIMIT_CREATED,
+    ...overrides,
+  };
+}
+
+function withData(record: KinesisStreamRecord, data: unknown): KinesisStreamRecord {
+  return {
+    ...record,
+    kinesis: { ...record.kinesis, data: Buffer.from(JSON.stringify(data)).toString('base64') },
+  };
+}
+
+describe('normalizeEvent', () => {
+  it('should flatten a producer envelope', () => {
+    expect(normalizeEvent(createEnvelope())).toEqual({
+      eventId: 'event-1',
+      eventType: EventType.USER_LIMIT_CREATED,
+      timestamp: new Date(CREATED_AT).toISOString(),
+      aggregateId: 'aggregate-1',
+      sequenceNumber: 3,
+      correlationId: 'correlation-1',
+      source: 'limitUser',
+      activeFrom: 1647946090592,
+      brandId: 'brand-1',
+      currencyCode: 'SEK',
+      period: 'DAY',
+      status: 'ACTIVE',
+      type: 'DEPOSIT',
+      userId: 'user-1',
+      userLimitId: 'limit-1',
+      value: '10000',
+    });
+  });
+
+  it('should not let payload keys override envelope fields', () => {
+    const envelope = createEnvelope();
+    const normalized = normalizeEvent({
+      ...envelope,
+      payload: {
+        ...(envelope.payload as Record<string, unknown>),
+        eventId: 'event-forged',
+        eventType: EventType.USER_LIMIT_RESET,
+        sequenceNumber: 99,
+        aggregateId: 'aggregate-forged',
+      },
+    });
+
+    expect(normalized).toMatchObject({
+      eventId: 'event-1',
+      eventType: EventType.USER_LIMIT_CREATED,
+      sequenceNumber: 3,
+      aggregateId: 'aggregate-1',
+      userLimitId: 'limit-1',
+    });
+  });
+
+  it('should leave flat events untouched', () => {
+    const flat = { eventId: 'event-1', eventType: EventType.USER_LIMIT_RESET, type: 'DEPOSIT' };
+
+    expect(normalizeEvent(flat)).toBe(flat);
+  });
+
+  it('should tolerate envelopes without context or createdAt', () => {
+    const normalized = normalizeEvent(createEnvelope({ context: {}, createdAt: undefined }));
+
+    expect(normalized).toMatchObject({ correlationId: undefined, timestamp: undefined });
+  });
+
+  it('should carry the W3C trace context of the envelope', () => {
+    const traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+    const normalized = normalizeEvent(
+      createEnvelope({
+        context: { correlationId: 'correlation-1', traceparent, tracestate: 'a=1' },
+      })
+    );
+
+    expect(normalized).toMatchObject({ traceparent, tracestate: 'a=1' });
+  });
+});
+
+describe('KinesisHandler - Event envelopes', () => {
+  let handler: KinesisHandler;
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProcessors = createMockEventProcessors();
+    handler = new KinesisHandler(mockProcessors.processors);
+  });
+
+  it('should process producer envelopes', async () => {
+    const result = await handler.processBatch([
+      withData(createMockKinesisRecord(0), createEnvelope()),
+    ]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventId: 'event-1',
+        eventType: EventType.USER_LIMIT_CREATED,
+        type: 'DEPOSIT',
+        correlationId: 'correlation-1',
+        aggregateId: 'aggregate-1',
+        sequenceNumber: 3,
+      })
+    );
+  });
+
+  it('should still process flat events', async () => {
+    const result = await handler.processBatch([createMockKinesisRecord(0)]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expose the record log context while the event is applied', async () => {
+    const contexts: LogContext[] = [];
+    mockProcessors.userLimitService.processEvent.mockImplementation(async () => {
+      await Promise.resolve();
+      contexts.push(getLogContext());
+    });
+
+    await handler.processBatch([
+      withData(createMockKinesisRecord(0, { userId: 'user-a' }), createEnvelope()),
+      withData(
+        createMockKinesisRecord(1, { userId: 'user-b' }),
+        createEnvelope({ eventId: 'event-2', aggregateId: 'aggregate-2', context: {} })
+      ),
+    ]);
+
+    expect(contexts).toEqual(
+      expect.arrayContaining([
+        { correlationId: 'correlation-1', eventId: 'event-1', aggregateId: 'aggregate-1' },
+        { correlationId: undefined, eventId: 'event-2', aggregateId: 'aggregate-2' },
+      ])
+    );
+    expect(getLogContext()).toEqual({});
+  });
+});
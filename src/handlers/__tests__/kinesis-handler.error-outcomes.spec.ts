@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { KinesisHandler } from '../kinesis-handler';
+import { createKinesisHandlerOptions } from '../handler-config';
+import { createMockEventProcessors, createMockKinesisRecord } from './test-helpers';
+import { InMemoryDeadLetterSink } from '../../dead-letter/dead-letter-sink';
+import {
+  DuplicateEventError,
+  StaleEventError,
+  UNEXPECTED_ERROR_CODE,
+  UserLimitAlreadyExistsError,
+  UserLimitExceededError,
+  UserLimitNotFoundError,
+  UserLimitVersionConflictError,
+  classifyError,
+} from '../../types/errors';
+
+describe('classifyError', () => {
+  it('should classify errors by their class', () => {
+    expect(classifyError(new UserLimitExceededError('limit-1', '10.00', '5.00'))).toEqual({
+      code: 'USER_LIMIT_EXCEEDED',
+      classification: 'permanent',
+    });
+    expect(classifyError(new UserLimitAlreadyExistsError('limit-1'))).toEqual({
+      code: 'USER_LIMIT_ALREADY_EXISTS',
+      classification: 'permanent',
+    });
+    expect(classifyError(new UserLimitVersionConflictError('limit-1', 1, 2))).toEqual({
+      code: 'USER_LIMIT_VERSION_CONFLICT',
+      classification: 'retryable',
+    });
+    expect(classifyError(new DuplicateEventError('limit-1', 'event-1'))).toEqual({
+      code: 'DUPLICATE_EVENT',
+      classification: 'skip',
+    });
+    expect(classifyError(new StaleEventError('limit-1', 'event-1'))).toEqual({
+      code: 'STALE_EVENT',
+      classification: 'permanent',
+    });
+  });
+
+  it('should treat errors from elsewhere as retryable', () => {
+    expect(classifyError(new Error('Throttled'))).toEqual({
+      code: UNEXPECTED_ERROR_CODE,
+      classification: 'retryable',
+    });
+    expect(classifyError('not an error')).toEqual({
+      code: UNEXPECTED_ERROR_CODE,
+      classification: 'retryable',
+    });
+  });
+});
+
+describe('KinesisHandler - Error outcomes', () => {
+  let handler: KinesisHandler;
+  let sink: InMemoryDeadLetterSink;
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProcessors = createMockEventProcessors();
+    sink = new InMemoryDeadLetterSink();
+    handler = new KinesisHandler(mockProcessors.processors, {
+      deadLetterSink: sink,
+      maxAttempts: 3,
+    });
+  });
+
+  it('should dead-letter permanent errors on the first attempt', async () => {
+    mockProcessors.userLimitService.processEvent.mockRejectedValue(
+      new UserLimitAlreadyExistsError('limit-0')
+    );
+
+    const result = await handler.processBatch([createMockKinesisRecord(0)]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(sink.entries).toMatchObject([
+      { errorCode: 'USER_LIMIT_ALREADY_EXISTS', attempts: { count: 1, maxAttempts: 3 } },
+    ]);
+  });
+
+  it('should retry retryable errors until maxAttempts', async () => {
+    mockProcessors.userLimitService.processEvent.mockRejectedValue(
+      new UserLimitNotFoundError('limit-0')
+    );
+    const record = createMockKinesisRecord(0);
+
+    const first = await handler.processBatch([record]);
+
+    expect(first.batchItemFailures).toEqual([{ itemIdentifier: '0' }]);
+    expect(sink.entries).toEqual([]);
+  });
+
+  it('should acknowledge skipped events without dead-lettering them', async () => {
+    mockProcessors.userLimitService.processEvent.mockRejectedValue(
+      new DuplicateEventError('limit-0', 'event-0')
+    );
+
+    const result = await handler.processBatch([createMockKinesisRecord(0)]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(sink.entries).toEqual([]);
+  });
+
+  it('should report permanent errors for retry when no sink is configured', async () => {
+    handler = new KinesisHandler(mockProcessors.processors);
+    mockProcessors.userLimitService.processEvent.mockRejectedValue(
+      new UserLimitExceededError('limit-0', '10.00', '5.00')
+    );
+
+    const result = await handler.processBatch([createMockKinesisRecord(0)]);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '0' }]);
+  });
+
+  it('should apply the configured outcome per classification', async () => {
+    handler = new KinesisHandler(mockProcessors.processors, {
+      deadLetterSink: sink,
+      errorOutcomes: { permanent: 'acknowledge', retryable: 'dead-letter' },
+    });
+    mockProcessors.userLimitService.processEvent
+      .mockRejectedValueOnce(new UserLimitExceededError('limit-0', '10.00', '5.00'))
+      .mockRejectedValueOnce(new Error('Throttled'));
+
+    const result = await handler.processBatch([
+      createMockKinesisRecord(0),
+      createMockKinesisRecord(1),
+    ]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(sink.entries.map((e) => [e.record.kinesis.sequenceNumber, e.errorCode])).toEqual([
+      ['1', UNEXPECTED_ERROR_CODE],
+    ]);
+  });
+});
+
+describe('createKinesisHandlerOptions - error outcomes', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should read outcomes per classification and ignore unknown ones', () => {
+    vi.stubEnv('ERROR_OUTCOME_PERMANENT', 'acknowledge');
+    vi.stubEnv('ERROR_OUTCOME_RETRYABLE', 'drop');
+
+    expect(createKinesisHandlerOptions().errorOutcomes).toEqual({
+      retryable: undefined,
+      permanent: 'acknowledge',
+      skip: undefined,
+    });
+  });
+});
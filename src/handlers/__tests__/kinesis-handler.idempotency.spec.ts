@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KinesisHandler } from '../kinesis-handler';
+import { createMockKinesisRecord, createMockEventProcessors } from './test-helpers';
+import { InMemoryIdempotencyStore } from '../../idempotency/idempotency-store';
+
+describe('KinesisHandler - Idempotency', () => {
+  let handler: KinesisHandler;
+  let store: InMemoryIdempotencyStore;
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProcessors = createMockEventProcessors();
+    store = new InMemoryIdempotencyStore();
+    handler = new KinesisHandler(mockProcessors.processors, { idempotencyStore: store });
+  });
+
+  it('should acknowledge an already applied event without applying it again', async () => {
+    const record = createMockKinesisRecord(0, { eventId: 'event-a' });
+
+    await handler.processBatch([record]);
+    const result = await handler.processBatch([record]);
+
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(1);
+    expect(result.batchItemFailures).toEqual([]);
+  });
+
+  it('should skip duplicates of the same eventId within one batch', async () => {
+    const records = [
+      createMockKinesisRecord(0, { eventId: 'event-a', userId: 'user-a' }),
+      createMockKinesisRecord(1, { eventId: 'event-a', userId: 'user-a' }),
+    ];
+
+    await handler.processBatch(records);
+
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not mark failed events as processed', async () => {
+    mockProcessors.userLimitService.processEvent.mockRejectedValueOnce(new Error('Failed'));
+    const record = createMockKinesisRecord(0, { eventId: 'event-a' });
+
+    const first = await handler.processBatch([record]);
+    const retry = await handler.processBatch([record]);
+
+    expect(first.batchItemFailures).toEqual([{ itemIdentifier: '0' }]);
+    expect(retry.batchItemFailures).toEqual([]);
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(2);
+    expect(await store.isProcessed('event-a')).toBe(true);
+  });
+
+  it('should not fail an applied record when recording it fails', async () => {
+    vi.spyOn(store, 'markProcessed').mockRejectedValue(new Error('Store unavailable'));
+
+    const result = await handler.processBatch([createMockKinesisRecord(0)]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail the record when the store cannot be read', async () => {
+    vi.spyOn(store, 'isProcessed').mockRejectedValue(new Error('Store unavailable'));
+
+    const result = await handler.processBatch([createMockKinesisRecord(0)]);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '0' }]);
+    expect(mockProcessors.userLimitService.processEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KinesisHandler } from '../kinesis-handler';
+import { createMockEventProcessors, createMockKinesisRecord } from './test-helpers';
+import { InMemoryMetrics, MetricName } from '../../metrics/metrics';
+import { EmfDocument, EmfMetrics } from '../../metrics/emf-metrics';
+import { EventType } from '../../user-limit/models/events';
+import { InMemoryDeadLetterSink } from '../../dead-letter/dead-letter-sink';
+import { InMemoryQuarantineStore } from '../../quarantine/quarantine-store';
+import { UserLimitExceededError } from '../../types/errors';
+
+describe('KinesisHandler - Metrics', () => {
+  let handler: KinesisHandler;
+  let metrics: InMemoryMetrics;
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProcessors = createMockEventProcessors();
+    metrics = new InMemoryMetrics();
+    handler = new KinesisHandler(mockProcessors.processors, { metrics });
+  });
+
+  it('should count the outcome of every record in the batch', async () => {
+    mockProcessors.userLimitService.processEvent
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Failed'));
+    const invalid = createMockKinesisRecord(2);
+    invalid.kinesis.data = Buffer.from('{"eventId":').toString('base64');
+
+    await handler.processBatch([createMockKinesisRecord(0), createMockKinesisRecord(1), invalid]);
+
+    expect(metrics.values(MetricName.BATCH_SIZE)).toEqual([3]);
+    expect(metrics.values(MetricName.RECORDS_SUCCEEDED)).toEqual([2]);
+    expect(metrics.values(MetricName.RECORDS_FAILED)).toEqual([1]);
+    expect(metrics.values(MetricName.RECORDS_SKIPPED)).toEqual([0]);
+    expect(metrics.values(MetricName.RECORDS_INVALID)).toEqual([1]);
+  });
+
+  it('should count dead-lettered and quarantined records', async () => {
+    handler = new KinesisHandler(mockProcessors.processors, {
+      metrics,
+      deadLetterSink: new InMemoryDeadLetterSink(),
+      quarantineStore: new InMemoryQuarantineStore(),
+    });
+    mockProcessors.userLimitService.processEvent.mockRejectedValueOnce(
+      new UserLimitExceededError('limit-0', '1500.00', '1000.00')
+    );
+    const invalid = createMockKinesisRecord(2);
+    invalid.kinesis.data = Buffer.from('{"eventId":').toString('base64');
+
+    await handler.processBatch([createMockKinesisRecord(0), createMockKinesisRecord(1), invalid]);
+
+    expect(metrics.values(MetricName.RECORDS_DEAD_LETTERED)).toEqual([1]);
+    expect(metrics.values(MetricName.RECORDS_QUARANTINED)).toEqual([1]);
+  });
+
+  it('should count records skipped after a failure in checkpoint mode', async () => {
+    handler = new KinesisHandler(mockProcessors.processors, { metrics, failureMode: 'checkpoint' });
+    mockProcessors.userLimitService.processEvent.mockRejectedValueOnce(new Error('Failed'));
+    const records = [0, 1].map((i) => createMockKinesisRecord(i, { userId: 'user-a' }));
+
+    await handler.processBatch(records);
+
+    expect(metrics.values(MetricName.RECORDS_FAILED)).toEqual([1]);
+    expect(metrics.values(MetricName.RECORDS_SKIPPED)).toEqual([1]);
+  });
+
+  it('should record the iterator age of the oldest record', async () => {
+    const old = createMockKinesisRecord(0);
+    old.kinesis.approximateArrivalTimestamp = (Date.now() - 60_000) / 1000;
+
+    await handler.processBatch([createMockKinesisRecord(1), old]);
+
+    const [iteratorAge] = metrics.values(MetricName.ITERATOR_AGE);
+    expect(iteratorAge).toBeGreaterThanOrEqual(60_000);
+    expect(iteratorAge).toBeLessThan(70_000);
+  });
+
+  it('should record processing latency by event type and brand', async () => {
+    await handler.processBatch([
+      createMockKinesisRecord(0),
+      createMockKinesisRecord(1, { eventType: EventType.USER_LIMIT_PROGRESS_CHANGED }),
+    ]);
+
+    const latencies = metrics.metrics.filter(
+      (m) => m.name === String(MetricName.EVENT_PROCESSING_LATENCY)
+    );
+    expect(latencies).toMatchObject([
+      {
+        unit: 'Milliseconds',
+        dimensions: { EventType: EventType.USER_LIMIT_CREATED, BrandId: 'test-brand' },
+      },
+      {
+        unit: 'Milliseconds',
+        dimensions: { EventType: EventType.USER_LIMIT_PROGRESS_CHANGED, BrandId: 'test-brand' },
+      },
+    ]);
+  });
+
+  it('should count events that exceed their limit', async () => {
+    mockProcessors.userLimitService.processEvent.mockRejectedValueOnce(
+      new UserLimitExceededError('limit-0', '1500.00', '1000.00')
+    );
+
+    await handler.processBatch([createMockKinesisRecord(0)]);
+
+    expect(
+      metrics.values(MetricName.USER_LIMIT_EXCEEDED, {
+        EventType: EventType.USER_LIMIT_CREATED,
+        BrandId: 'test-brand',
+      })
+    ).toEqual([1]);
+  });
+
+  it('should write the metrics of a batch as EMF documents once it completes', async () => {
+    const documents: EmfDocument[] = [];
+    handler = new KinesisHandler(mockProcessors.processors, {
+      metrics: new EmfMetrics('KinesisHandler', (document) => documents.push(document)),
+    });
+
+    await handler.processBatch([createMockKinesisRecord(0), createMockKinesisRecord(1)]);
+
+    expect(documents).toHaveLength(2);
+    expect(documents[0]).toMatchObject({ BatchSize: 2, RecordsSucceeded: 2, RecordsFailed: 0 });
+    expect(documents[1]).toMatchObject({
+      _aws: { CloudWatchMetrics: [{ Dimensions: [['EventType', 'BrandId']] }] },
+      EventType: EventType.USER_LIMIT_CREATED,
+      BrandId: 'test-brand',
+      EventProcessingLatency: [expect.any(Number), expect.any(Number)],
+    });
+  });
+});
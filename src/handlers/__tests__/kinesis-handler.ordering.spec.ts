@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KinesisStreamRecord } from 'aws-lambda';
+import { KinesisHandler } from '../kinesis-handler';
+import { createMockKinesisRecord, createMockEventProcessors, sleep } from './test-helpers';
+import { EventType } from '../../user-limit/models/events';
+import { UserLimitService } from '../../user-limit/services/user-limit-service';
+import { InMemoryUserLimitRepository } from '../../user-limit/repositories/user-limit-repository';
+import { UserLimitEventProcessor } from '../../processors/user-limit-event-processor';
+
+describe('KinesisHandler - Partition Key Ordering', () => {
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProcessors = createMockEventProcessors();
+  });
+
+  it('should process records with the same partition key sequentially in shard order', async () => {
+    const handler = new KinesisHandler(mockProcessors.processors);
+    const calls: string[] = [];
+
+    mockProcessors.userLimitService.processEvent.mockImplementation(
+      async (event: { eventType: EventType }) => {
+        calls.push(`start:${event.eventType}`);
+        // The created event is slower, so a parallel run would let progress overtake it
+        await sleep(event.eventType === EventType.USER_LIMIT_CREATED ? 20 : 1);
+        calls.push(`end:${event.eventType}`);
+      }
+    );
+
+    const records = [
+      createMockKinesisRecord(0, {
+        userId: 'user-1',
+        userLimitId: 'limit-1',
+        eventType: EventType.USER_LIMIT_CREATED,
+      }),
+      createMockKinesisRecord(1, {
+        userId: 'user-1',
+        userLimitId: 'limit-1',
+        eventType: EventType.USER_LIMIT_PROGRESS_CHANGED,
+      }),
+    ];
+
+    const result = await handler.processBatch(records);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(calls).toEqual([
+      `start:${EventType.USER_LIMIT_CREATED}`,
+      `end:${EventType.USER_LIMIT_CREATED}`,
+      `start:${EventType.USER_LIMIT_PROGRESS_CHANGED}`,
+      `end:${EventType.USER_LIMIT_PROGRESS_CHANGED}`,
+    ]);
+  });
+
+  it('should process different partition keys in parallel', async () => {
+    const handler = new KinesisHandler(mockProcessors.processors);
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    mockProcessors.userLimitService.processEvent.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(5);
+      inFlight--;
+    });
+
+    const records = [0, 1, 2, 3].map((i) => createMockKinesisRecord(i, { userId: `user-${i}` }));
+
+    await handler.processBatch(records);
+
+    expect(maxInFlight).toBe(4);
+  });
+
+  it('should respect maxConcurrency across partition key groups', async () => {
+    const handler = new KinesisHandler(mockProcessors.processors, { maxConcurrency: 2 });
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    mockProcessors.userLimitService.processEvent.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(5);
+      inFlight--;
+    });
+
+    const records = Array.from({ length: 6 }, (_, i) =>
+      createMockKinesisRecord(i, { userId: `user-${i}` })
+    );
+
+    await handler.processBatch(records);
+
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(6);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should report failures in original batch order across groups', async () => {
+    const handler = new KinesisHandler(mockProcessors.processors, { maxConcurrency: 1 });
+
+    mockProcessors.userLimitService.processEvent.mockImplementation(
+      (event: { userLimitId?: string }) => {
+        if (event.userLimitId === 'limit-1' || event.userLimitId === 'limit-2') {
+          throw new Error('Processing failed');
+        }
+        return Promise.resolve();
+      }
+    );
+
+    // limit-2 belongs to the first group, limit-1 to the second
+    const records = [
+      createMockKinesisRecord(0, { userId: 'user-a' }),
+      createMockKinesisRecord(1, { userId: 'user-b' }),
+      createMockKinesisRecord(2, { userId: 'user-a' }),
+    ];
+
+    const result = await handler.processBatch(records);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '1' }, { itemIdentifier: '2' }]);
+  });
+
+  it('should not let a later event of the same key overtake a failed one', async () => {
+    const repository = new InMemoryUserLimitRepository();
+    const handler = new KinesisHandler([
+      new UserLimitEventProcessor(new UserLimitService(repository)),
+    ]);
+    const update = repository.update.bind(repository);
+    vi.spyOn(repository, 'update')
+      .mockRejectedValueOnce(Object.assign(new Error('Timed out'), { name: 'TimeoutError' }))
+      .mockImplementation(update);
+
+    const event = (
+      sequenceNumber: number,
+      eventType: EventType,
+      fields: Record<string, unknown> = {}
+    ): KinesisStreamRecord => {
+      const record = createMockKinesisRecord(sequenceNumber, {
+        userId: 'user-1',
+        userLimitId: 'limit-1',
+        eventType,
+      });
+      const payload = JSON.parse(Buffer.from(record.kinesis.data, 'base64').toString('utf-8'));
+      const data = JSON.stringify({ ...payload, sequenceNumber, ...fields });
+      return {
+        ...record,
+        kinesis: { ...record.kinesis, data: Buffer.from(data).toString('base64') },
+      };
+    };
+    const records = [
+      event(1, EventType.USER_LIMIT_CREATED),
+      event(2, EventType.USER_LIMIT_PROGRESS_CHANGED, { amount: '100' }),
+      event(3, EventType.USER_LIMIT_PROGRESS_CHANGED, { amount: '50' }),
+    ];
+
+    const first = await handler.processBatch(records);
+
+    expect(first.batchItemFailures).toEqual([{ itemIdentifier: '2' }, { itemIdentifier: '3' }]);
+    expect((await repository.findById('limit-1'))?.progress).toBe('0');
+
+    const retry = await handler.processBatch(records.slice(1));
+
+    expect(retry.batchItemFailures).toEqual([]);
+    expect((await repository.findById('limit-1'))?.progress).toBe('150.00');
+  });
+});
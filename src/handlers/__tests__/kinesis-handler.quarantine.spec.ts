@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KinesisStreamRecord } from 'aws-lambda';
+import { KinesisHandler } from '../kinesis-handler';
+import { createMockKinesisRecord, createMockEventProcessors } from './test-helpers';
+import { InMemoryQuarantineStore } from '../../quarantine/quarantine-store';
+import { EventType } from '../../user-limit/models/events';
+
+function withData(record: KinesisStreamRecord, data: string): KinesisStreamRecord {
+  return { ...record, kinesis: { ...record.kinesis, data: Buffer.from(data).toString('base64') } };
+}
+
+describe('KinesisHandler - Quarantine', () => {
+  let handler: KinesisHandler;
+  let store: InMemoryQuarantineStore;
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProcessors = createMockEventProcessors();
+    store = new InMemoryQuarantineStore();
+    handler = new KinesisHandler(mockProcessors.processors, { quarantineStore: store });
+  });
+
+  it('should quarantine malformed JSON', async () => {
+    const record = withData(createMockKinesisRecord(0), '{not json');
+
+    const result = await handler.processBatch([record]);
+
+    expect(result.batchItemFailures).toEqual([]);
+    const [entry] = await store.list();
+    expect(entry).toMatchObject({ reason: 'malformed-json', record });
+    expect(entry.errors).toHaveLength(1);
+    expect(entry.payload).toBeUndefined();
+  });
+
+  it('should quarantine events failing validation with every validation error', async () => {
+    const record = withData(
+      createMockKinesisRecord(0),
+      JSON.stringify({
+        eventId: 'event-0',
+        eventType: EventType.USER_LIMIT_PROGRESS_CHANGED,
+        timestamp: new Date().toISOString(),
+        userId: 'user-0',
+      })
+    );
+
+    await handler.processBatch([record]);
+
+    const [entry] = await store.list();
+    expect(entry.reason).toBe('validation-failed');
+    expect(entry.errors).toEqual(
+      expect.arrayContaining([
+        'userLimitId is a required field',
+        'amount is a required field',
+        'brandId is a required field',
+      ])
+    );
+    expect(entry.payload).toMatchObject({ eventId: 'event-0' });
+    expect(entry.coordinates).toMatchObject({ sequenceNumber: '0', partitionKey: 'user-0' });
+  });
+
+  it('should quarantine unknown event types', async () => {
+    const record = withData(
+      createMockKinesisRecord(0),
+      JSON.stringify({ eventId: 'event-0', eventType: 'USER_LIMIT_RENAMED', userId: 'user-0' })
+    );
+
+    await handler.processBatch([record]);
+
+    const [entry] = await store.list();
+    expect(entry).toMatchObject({
+      reason: 'unknown-event-type',
+      errors: ['Unknown event type: USER_LIMIT_RENAMED'],
+    });
+  });
+
+  it('should quarantine events without a registered processor', async () => {
+    handler = new KinesisHandler([], { quarantineStore: store });
+
+    await handler.processBatch([createMockKinesisRecord(0)]);
+
+    const [entry] = await store.list();
+    expect(entry.reason).toBe('unknown-event-type');
+  });
+
+  it('should not quarantine valid events', async () => {
+    await handler.processBatch([createMockKinesisRecord(0)]);
+
+    expect(await store.list()).toEqual([]);
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail the record when the store cannot be written', async () => {
+    vi.spyOn(store, 'put').mockRejectedValue(new Error('Disk full'));
+
+    const result = await handler.processBatch([withData(createMockKinesisRecord(0), '{not json')]);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '0' }]);
+  });
+
+  it('should acknowledge rejected events without a store', async () => {
+    handler = new KinesisHandler(mockProcessors.processors);
+
+    const result = await handler.processBatch([withData(createMockKinesisRecord(0), '{not json')]);
+
+    expect(result.batchItemFailures).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KinesisStreamRecord } from 'aws-lambda';
+import { InvocationContext, KinesisHandler } from '../kinesis-handler';
+import { createMockEventProcessors, createMockKinesisRecord } from './test-helpers';
+import { InMemoryDeadLetterSink } from '../../dead-letter/dead-letter-sink';
+import { InMemoryMetrics, MetricName } from '../../metrics/metrics';
+
+describe('KinesisHandler - Invocation deadline', () => {
+  let handler: KinesisHandler;
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+  let remainingTime: number;
+
+  const context: InvocationContext = { getRemainingTimeInMillis: () => remainingTime };
+  const sameUser = (count: number): KinesisStreamRecord[] =>
+    Array.from({ length: count }, (_, i) => createMockKinesisRecord(i, { userId: 'user-a' }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProcessors = createMockEventProcessors();
+    handler = new KinesisHandler(mockProcessors.processors, { timeoutMarginMs: 5000 });
+    remainingTime = 20_000;
+    // Every event takes 6 seconds of the invocation
+    mockProcessors.userLimitService.processEvent.mockImplementation(() => {
+      remainingTime -= 6000;
+      return Promise.resolve();
+    });
+  });
+
+  it('should stop starting records once the remaining time drops below the margin', async () => {
+    const result = await handler.processBatch(sameUser(5), context);
+
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(3);
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '3' }, { itemIdentifier: '4' }]);
+  });
+
+  it('should defer every partition key group that has not started yet', async () => {
+    handler = new KinesisHandler(mockProcessors.processors, {
+      timeoutMarginMs: 5000,
+      maxConcurrency: 1,
+    });
+    const records = [0, 1, 2, 3].map((i) => createMockKinesisRecord(i));
+
+    const result = await handler.processBatch(records, context);
+
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(3);
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '3' }]);
+  });
+
+  it('should report only the first deferred record per shard in checkpoint mode', async () => {
+    handler = new KinesisHandler(mockProcessors.processors, {
+      timeoutMarginMs: 5000,
+      failureMode: 'checkpoint',
+    });
+
+    const result = await handler.processBatch(sameUser(5), context);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: '3' }]);
+  });
+
+  it('should not count deferred records as failed attempts', async () => {
+    const sink = new InMemoryDeadLetterSink();
+    handler = new KinesisHandler(mockProcessors.processors, {
+      timeoutMarginMs: 5000,
+      deadLetterSink: sink,
+      maxAttempts: 1,
+    });
+    remainingTime = 1000;
+
+    const result = await handler.processBatch(sameUser(2), context);
+
+    expect(result.batchItemFailures).toHaveLength(2);
+    expect(sink.entries).toEqual([]);
+  });
+
+  it('should process the whole batch without an invocation context', async () => {
+    const result = await handler.processBatch(sameUser(5));
+
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(5);
+    expect(result.batchItemFailures).toEqual([]);
+  });
+
+  it('should count deferred records apart from failures', async () => {
+    const metrics = new InMemoryMetrics();
+    handler = new KinesisHandler(mockProcessors.processors, { timeoutMarginMs: 5000, metrics });
+
+    await handler.processBatch(sameUser(5), context);
+
+    expect(metrics.values(MetricName.RECORDS_DEFERRED)).toEqual([2]);
+    expect(metrics.values(MetricName.RECORDS_FAILED)).toEqual([0]);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { KinesisStreamRecord } from 'aws-lambda';
+import { SpanStatusCode } from '@opentelemetry/api';
+import {
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { KinesisHandler } from '../kinesis-handler';
+import { createMockKinesisRecord } from './test-helpers';
+import { registerTracing, unregisterTracing } from '../../tracing/tracing';
+import { UserLimitService } from '../../user-limit/services/user-limit-service';
+import { InMemoryUserLimitRepository } from '../../user-limit/repositories/user-limit-repository';
+import { TracedUserLimitRepository } from '../../user-limit/repositories/traced-user-limit-repository';
+import { UserLimitEventProcessor } from '../../processors/user-limit-event-processor';
+import { EventType } from '../../user-limit/models/events';
+
+const TRACE_ID = '0af7651916cd43dd8448eb211c80319c';
+const PARENT_SPAN_ID = 'b7ad6b7169203331';
+
+function withEventFields(
+  record: KinesisStreamRecord,
+  fields: Record<string, unknown>
+): KinesisStreamRecord {
+  const event = JSON.parse(Buffer.from(record.kinesis.data, 'base64').toString('utf-8')) as object;
+  const data = Buffer.from(JSON.stringify({ ...event, ...fields })).toString('base64');
+  return { ...record, kinesis: { ...record.kinesis, data } };
+}
+
+describe('KinesisHandler - Tracing', () => {
+  const exporter = new InMemorySpanExporter();
+  let handler: KinesisHandler;
+
+  const spans = (): ReadableSpan[] => exporter.getFinishedSpans();
+  const span = (name: string): ReadableSpan => spans().find((s) => s.name === name)!;
+  const parentOf = (child: ReadableSpan): ReadableSpan | undefined =>
+    spans().find((s) => s.spanContext().spanId === child.parentSpanContext?.spanId);
+
+  beforeAll(() => {
+    registerTracing(new SimpleSpanProcessor(exporter));
+  });
+
+  afterAll(() => {
+    unregisterTracing();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+    const repository = new TracedUserLimitRepository(new InMemoryUserLimitRepository());
+    handler = new KinesisHandler([new UserLimitEventProcessor(new UserLimitService(repository))]);
+  });
+
+  it('should nest processor, service and repository spans under the record span', async () => {
+    await handler.processBatch([createMockKinesisRecord(0, { sequenceNumber: '100' })]);
+
+    expect(parentOf(span('UserLimitRepository.save'))?.name).toBe(
+      'UserLimitService.handleLimitCreated'
+    );
+    expect(parentOf(span('UserLimitService.handleLimitCreated'))?.name).toBe(
+      'EventProcessor.processEvent'
+    );
+    expect(parentOf(span('EventProcessor.processEvent'))?.name).toBe('processRecord');
+    expect(span('processRecord').attributes).toEqual({
+      sequenceNumber: '100',
+      eventType: EventType.USER_LIMIT_CREATED,
+    });
+    expect(span('EventProcessor.processEvent').attributes).toEqual({
+      eventType: EventType.USER_LIMIT_CREATED,
+      userLimitId: 'limit-0',
+      processor: 'UserLimitEventProcessor',
+    });
+    expect(span('UserLimitRepository.save').attributes).toMatchObject({ userLimitId: 'limit-0' });
+  });
+
+  it('should give every record of a batch its own span', async () => {
+    await handler.processBatch([createMockKinesisRecord(0), createMockKinesisRecord(1)]);
+
+    const recordSpans = spans().filter((s) => s.name === 'processRecord');
+    expect(recordSpans.map((s) => s.attributes.sequenceNumber)).toEqual(['0', '1']);
+    expect(recordSpans[0].spanContext().traceId).not.toBe(recordSpans[1].spanContext().traceId);
+  });
+
+  it('should link the record span to the trace context carried by the event', async () => {
+    const record = withEventFields(createMockKinesisRecord(0), {
+      traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`,
+    });
+
+    await handler.processBatch([record]);
+
+    expect(span('processRecord').links).toMatchObject([
+      { context: { traceId: TRACE_ID, spanId: PARENT_SPAN_ID } },
+    ]);
+  });
+
+  it('should not link records without a valid trace context', async () => {
+    const record = withEventFields(createMockKinesisRecord(0), { traceparent: 'not-a-trace' });
+
+    await handler.processBatch([record, createMockKinesisRecord(1)]);
+
+    expect(spans().filter((s) => s.name === 'processRecord' && s.links.length > 0)).toEqual([]);
+  });
+
+  it('should mark the spans of a failing event as errors', async () => {
+    await handler.processBatch([
+      createMockKinesisRecord(0, { eventType: EventType.USER_LIMIT_PROGRESS_CHANGED }),
+    ]);
+
+    expect(span('UserLimitService.handleProgressChanged').status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'UserLimit with id limit-0 not found',
+    });
+    expect(span('EventProcessor.processEvent').status.code).toBe(SpanStatusCode.ERROR);
+    expect(span('UserLimitRepository.findById').status.code).toBe(SpanStatusCode.UNSET);
+  });
+});
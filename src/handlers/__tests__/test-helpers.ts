@@ -1,9 +1,11 @@
 import { KinesisStreamRecord } from 'aws-lambda';
+import { createHash } from 'crypto';
 import { vi } from 'vitest';
 import { UserLimitService } from '../../user-limit/services/user-limit-service';
 import { EventType } from '../../user-limit/models/events';
 import { EventProcessor } from '../../processors/event-processor';
 import { UserLimitEventProcessor } from '../../processors/user-limit-event-processor';
+import { KPL_MAGIC } from '../kpl-aggregation';
 
 /**
  * Create mock Kinesis records for testing
@@ -96,6 +98,58 @@ export function createMockKinesisRecords(count: number): KinesisStreamRecord[] {
   return Array.from({ length: count }, (_, i) => createMockKinesisRecord(i));
 }
 
+/**
+ * Packs records into one KPL aggregated record (magic bytes, protobuf AggregatedRecord,
+ * MD5 of the message), the way the Kinesis Producer Library writes them
+ */
+export function createAggregatedKinesisRecord(
+  sequenceNumber: string,
+  userRecords: KinesisStreamRecord[]
+): KinesisStreamRecord {
+  const partitionKeys = [...new Set(userRecords.map((r) => r.kinesis.partitionKey))];
+  const message = Buffer.concat([
+    ...partitionKeys.map((key) => protobufField(1, Buffer.from(key))),
+    ...userRecords.map((r) =>
+      protobufField(
+        3,
+        Buffer.concat([
+          protobufVarint(1, partitionKeys.indexOf(r.kinesis.partitionKey)),
+          protobufField(3, Buffer.from(r.kinesis.data, 'base64')),
+        ])
+      )
+    ),
+  ]);
+  const data = Buffer.concat([KPL_MAGIC, message, createHash('md5').update(message).digest()]);
+
+  return {
+    ...userRecords[0],
+    eventID: `shardId-000000000000:${sequenceNumber}`,
+    kinesis: {
+      ...userRecords[0].kinesis,
+      sequenceNumber,
+      data: data.toString('base64'),
+    },
+  };
+}
+
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
+
+function protobufVarint(fieldNumber: number, value: number): Buffer {
+  return Buffer.concat([varint(fieldNumber * 8), varint(value)]);
+}
+
+function protobufField(fieldNumber: number, bytes: Buffer): Buffer {
+  return Buffer.concat([varint(fieldNumber * 8 + 2), varint(bytes.length), bytes]);
+}
+
 /**
  * Mock UserLimitService
  */
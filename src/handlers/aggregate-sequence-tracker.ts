@@ -0,0 +1,46 @@
+const DEFAULT_MAX_AGGREGATES = 10_000;
+
+export interface SequenceObservation {
+  /** Number of sequence numbers missing between the last seen event and this one */
+  gap: number;
+  /** This event is not newer than the last one seen for its aggregate */
+  outOfOrder: boolean;
+  lastSequenceNumber?: number;
+}
+
+/**
+ * Remembers the last sequence number seen per aggregate in this Lambda container, so
+ * missing or reordered producer events can be reported. Best effort only: state is lost
+ * on cold start, and the least recently seen aggregates are evicted past `maxAggregates`.
+ */
+export class AggregateSequenceTracker {
+  private lastSequenceByAggregate: Map<string, number> = new Map();
+
+  constructor(private readonly maxAggregates: number = DEFAULT_MAX_AGGREGATES) {}
+
+  observe(aggregateId: string, sequenceNumber: number): SequenceObservation {
+    const lastSequenceNumber = this.lastSequenceByAggregate.get(aggregateId);
+
+    if (lastSequenceNumber !== undefined && sequenceNumber <= lastSequenceNumber) {
+      return { gap: 0, outOfOrder: true, lastSequenceNumber };
+    }
+
+    // Re-insert so the map stays ordered from least to most recently seen
+    this.lastSequenceByAggregate.delete(aggregateId);
+    this.lastSequenceByAggregate.set(aggregateId, sequenceNumber);
+    this.evictOldest();
+
+    return {
+      gap: lastSequenceNumber === undefined ? 0 : sequenceNumber - lastSequenceNumber - 1,
+      outOfOrder: false,
+      lastSequenceNumber,
+    };
+  }
+
+  private evictOldest(): void {
+    while (this.lastSequenceByAggregate.size > this.maxAggregates) {
+      const oldest = this.lastSequenceByAggregate.keys().next().value as string;
+      this.lastSequenceByAggregate.delete(oldest);
+    }
+  }
+}
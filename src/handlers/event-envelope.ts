@@ -0,0 +1,75 @@
+import { LogContext } from '../utils/logger';
+
+/**
+ * Message format written by the producers. The flat format `baseEventSchema` validates
+ * puts the envelope fields and the payload side by side instead.
+ */
+export interface EventEnvelope {
+  eventId?: string;
+  aggregateId?: string;
+  sequenceNumber?: number;
+  schemaVersion?: number;
+  type: string;
+  source?: string;
+  /** `traceparent` and `tracestate` follow W3C Trace Context */
+  context?: { correlationId?: string; traceparent?: string; tracestate?: string };
+  createdAt?: number;
+  payload: Record<string, unknown>;
+}
+
+export function isEventEnvelope(data: unknown): data is EventEnvelope {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const candidate = data as Record<string, unknown>;
+  return (
+    candidate.eventType === undefined &&
+    typeof candidate.type === 'string' &&
+    typeof candidate.payload === 'object' &&
+    candidate.payload !== null
+  );
+}
+
+/**
+ * Flattens a producer envelope into the flat event format; flat events are returned as-is.
+ * The envelope `type` becomes `eventType`, so it does not clash with the limit `type`
+ * carried in USER_LIMIT payloads. Envelope fields take precedence over payload keys of
+ * the same name, so a payload cannot change the eventId or sequence the idempotency and
+ * stale checks rely on.
+ */
+export function normalizeEvent(data: unknown): unknown {
+  if (!isEventEnvelope(data)) {
+    return data;
+  }
+
+  return {
+    ...data.payload,
+    eventId: data.eventId,
+    eventType: data.type,
+    timestamp: data.createdAt === undefined ? undefined : new Date(data.createdAt).toISOString(),
+    aggregateId: data.aggregateId,
+    sequenceNumber: data.sequenceNumber,
+    correlationId: data.context?.correlationId,
+    traceparent: data.context?.traceparent,
+    tracestate: data.context?.tracestate,
+    source: data.source,
+    schemaVersion: data.schemaVersion,
+  };
+}
+
+/**
+ * Picks the identifiers worth tagging log lines with from a (normalized) event
+ */
+export function eventLogContext(data: unknown): LogContext {
+  if (typeof data !== 'object' || data === null) {
+    return {};
+  }
+
+  const { correlationId, eventId, aggregateId } = data as Record<string, unknown>;
+  return {
+    correlationId: typeof correlationId === 'string' ? correlationId : undefined,
+    eventId: typeof eventId === 'string' ? eventId : undefined,
+    aggregateId: typeof aggregateId === 'string' ? aggregateId : undefined,
+  };
+}
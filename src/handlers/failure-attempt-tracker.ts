@@ -0,0 +1,50 @@
+const DEFAULT_MAX_RECORDS = 10_000;
+
+export interface FailureAttempts {
+  count: number;
+  firstFailedAt: number;
+  lastFailedAt: number;
+}
+
+/**
+ * Counts failed attempts per Kinesis record (keyed by eventID, which is stable across
+ * Lambda retries) in this Lambda container. Best effort only: a retry landing on another
+ * container starts counting again, and the least recently failed records are evicted
+ * past `maxRecords`.
+ */
+export class FailureAttemptTracker {
+  private attemptsByRecord: Map<string, FailureAttempts> = new Map();
+
+  constructor(
+    private readonly maxRecords: number = DEFAULT_MAX_RECORDS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  recordFailure(recordId: string): FailureAttempts {
+    const previous = this.attemptsByRecord.get(recordId);
+    const failedAt = this.now();
+    const attempts: FailureAttempts = {
+      count: (previous?.count ?? 0) + 1,
+      firstFailedAt: previous?.firstFailedAt ?? failedAt,
+      lastFailedAt: failedAt,
+    };
+
+    // Re-insert so the map stays ordered from least to most recently failed
+    this.attemptsByRecord.delete(recordId);
+    this.attemptsByRecord.set(recordId, attempts);
+    this.evictOldest();
+
+    return attempts;
+  }
+
+  clear(recordId: string): void {
+    this.attemptsByRecord.delete(recordId);
+  }
+
+  private evictOldest(): void {
+    while (this.attemptsByRecord.size > this.maxRecords) {
+      const oldest = this.attemptsByRecord.keys().next().value as string;
+      this.attemptsByRecord.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { BatchFailureMode, ErrorOutcome, KinesisHandlerOptions } from './kinesis-handler';
+import { createDecoders } from './record-decoders';
+import { createChildLogger } from '../utils/logger';
+import { readPositiveInteger } from '../utils/env';
+
+const logger = createChildLogger({ service: 'handler-config' });
+
+/**
+ * Builds KinesisHandler options from environment configuration
+ *
+ * Environment Variables:
+ * - KINESIS_MAX_CONCURRENCY: max partition key groups processed in parallel (default: unbounded)
+ * - KINESIS_FAILURE_MODE: 'report-all' | 'checkpoint' (default: 'report-all')
+ * - DEAD_LETTER_MAX_ATTEMPTS: failed attempts before a record is dead-lettered (default: 3)
+ * - KINESIS_TIMEOUT_MARGIN_MS: invocation time left below which no new record is started (default: 5000)
+ * - KINESIS_MAX_DECOMPRESSED_BYTES: largest payload a gzip/deflate record may decompress to (default: 10485760)
+ * - ERROR_OUTCOME_RETRYABLE: 'retry' | 'dead-letter' | 'acknowledge' (default: 'retry')
+ * - ERROR_OUTCOME_PERMANENT: 'retry' | 'dead-letter' | 'acknowledge' (default: 'dead-letter')
+ * - ERROR_OUTCOME_SKIP: 'retry' | 'dead-letter' | 'acknowledge' (default: 'acknowledge')
+ */
+export function createKinesisHandlerOptions(): KinesisHandlerOptions {
+  return {
+    maxConcurrency: readPositiveInteger('KINESIS_MAX_CONCURRENCY'),
+    failureMode: readFailureMode(),
+    maxAttempts: readPositiveInteger('DEAD_LETTER_MAX_ATTEMPTS'),
+    timeoutMarginMs: readPositiveInteger('KINESIS_TIMEOUT_MARGIN_MS'),
+    decoders: createDecoders({
+      maxOutputLength: readPositiveInteger('KINESIS_MAX_DECOMPRESSED_BYTES'),
+    }),
+    errorOutcomes: {
+      retryable: readErrorOutcome('ERROR_OUTCOME_RETRYABLE'),
+      permanent: readErrorOutcome('ERROR_OUTCOME_PERMANENT'),
+      skip: readErrorOutcome('ERROR_OUTCOME_SKIP'),
+    },
+  };
+}
+
+function readErrorOutcome(name: string): ErrorOutcome | undefined {
+  const raw = process.env[name]?.toLowerCase();
+  if (!raw) {
+    return undefined;
+  }
+
+  if (raw !== 'retry' && raw !== 'dead-letter' && raw !== 'acknowledge') {
+    logger.warn({ [name]: raw }, 'Unknown error outcome, using default');
+    return undefined;
+  }
+
+  return raw;
+}
+
+function readFailureMode(): BatchFailureMode | undefined {
+  const raw = process.env.KINESIS_FAILURE_MODE?.toLowerCase();
+  if (!raw) {
+    return undefined;
+  }
+
+  if (raw !== 'report-all' && raw !== 'checkpoint') {
+    logger.warn({ failureMode: raw }, 'Unknown failure mode, falling back to report-all');
+    return undefined;
+  }
+
+  return raw;
+}
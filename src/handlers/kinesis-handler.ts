@@ -1,67 +1,534 @@
-import { KinesisStreamRecord, KinesisStreamBatchResponse } from 'aws-lambda';
+import { Context, KinesisStreamRecord, KinesisStreamBatchResponse } from 'aws-lambda';
 import { Buffer } from 'buffer';
 import { EventProcessor } from '../processors/event-processor';
 import { validateEvent } from '../user-limit/validation/event-schemas';
-import { logger } from '../utils/logger';
-import { SkippedRecordError, ProcessingError } from '../types/errors';
+import { logger, withLogContext } from '../utils/logger';
+import {
+  AggregatedRecordError,
+  ErrorClassification,
+  MalformedJsonError,
+  ProcessingError,
+  UserLimitExceededError,
+  classifyError,
+} from '../types/errors';
 import { ValidatedEventData } from '../types/events';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { IIdempotencyStore } from '../idempotency/idempotency-store';
+import { AggregateSequenceTracker } from './aggregate-sequence-tracker';
+import { FailureAttemptTracker } from './failure-attempt-tracker';
+import { eventLogContext, normalizeEvent } from './event-envelope';
+import { deaggregate } from './kpl-aggregation';
+import { KinesisUserRecord, userRecordId } from './user-record';
+import {
+  DEFAULT_DECODERS,
+  RecordDecoder,
+  decodePayloads,
+  parseJsonPayload,
+} from './record-decoders';
+import { IDeadLetterSink, describeErrorChain } from '../dead-letter/dead-letter-sink';
+import {
+  IQuarantineStore,
+  QuarantineReason,
+  createQuarantineEntry,
+} from '../quarantine/quarantine-store';
+import { IMetrics, MetricName, timed } from '../metrics/metrics';
+import { SpanAttribute, upstreamLinks, withSpan } from '../tracing/tracing';
+import { withDeadline } from '../utils/invocation-deadline';
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const DEFAULT_TIMEOUT_MARGIN_MS = 5000;
+
+/**
+ * What happens to a record whose processing threw:
+ * - retry: reported for retry; dead-lettered after `maxAttempts` when a sink is configured
+ * - dead-letter: handed to the dead-letter sink straight away; without a sink it is
+ *   reported for retry, leaving it to the event source mapping's retry settings
+ * - acknowledge: logged and acknowledged without being applied
+ */
+export type ErrorOutcome = 'retry' | 'dead-letter' | 'acknowledge';
+
+export const DEFAULT_ERROR_OUTCOMES: Record<ErrorClassification, ErrorOutcome> = {
+  retryable: 'retry',
+  permanent: 'dead-letter',
+  skip: 'acknowledge',
+};
+
+/** The part of the Lambda context the handler uses to avoid running into the timeout */
+export type InvocationContext = Pick<Context, 'getRemainingTimeInMillis'>;
+
+type DecodingFailureReason = 'malformed-json' | 'malformed-aggregate' | 'malformed-encoding';
+
+/** Record data decoded and normalized to the flat event format */
+type DecodedRecord = { data: unknown } | { error: Error; reason: DecodingFailureReason };
+
+/** Lowest failed sequence number per shard in checkpoint mode */
+type ShardCheckpoints = Map<string, bigint>;
+
+/** One event to apply, together with the record it was decoded from */
+interface DecodedUserRecord {
+  record: KinesisUserRecord;
+  decoded: DecodedRecord;
+}
 
 export interface ProcessingResult {
-  record: KinesisStreamRecord;
+  /**
+   * The record as processed; for KPL aggregates and batches of events this is the
+   * sub-record holding the one event
+   */
+  record: KinesisUserRecord;
   success: boolean;
+  /** Not attempted because an earlier record with the same partition key failed */
+  skipped?: boolean;
+  /** Not started because the invocation was about to time out; reported for retry */
+  deferred?: boolean;
+  /** Failed too often and was handed to the dead-letter sink instead of being retried */
+  deadLettered?: boolean;
+  /** Rejected by decoding or validation and acknowledged without being applied */
+  rejected?: boolean;
+  /** Rejected before reaching a processor and kept in the quarantine store */
+  quarantined?: boolean;
+  /** Classification of the error the record was acknowledged with, without being applied */
+  acknowledgedAs?: ErrorClassification;
+  errorCode?: string;
   error?: Error;
 }
 
+export interface BatchResult {
+  response: KinesisStreamBatchResponse;
+  /** One result per event, in batch order */
+  results: ProcessingResult[];
+}
+
+/**
+ * In both modes a partition key stops at its first failure, so its events are never
+ * applied out of order.
+ * - report-all: every failed record is reported, together with the records of the same
+ *   partition key that were skipped after it
+ * - checkpoint: only the lowest failed sequence number per shard is reported, which is
+ *   where Lambda resumes the shard; no record at or past it is started after the failure
+ */
+export type BatchFailureMode = 'report-all' | 'checkpoint';
+
+export interface KinesisHandlerOptions {
+  /** Maximum number of partition key groups processed in parallel (default: unbounded) */
+  maxConcurrency?: number;
+  /** How failures are reported back to Lambda (default: report-all) */
+  failureMode?: BatchFailureMode;
+  /** Remembers applied eventIds so retried or replayed events are not applied twice */
+  idempotencyStore?: IIdempotencyStore;
+  /** Receives records that failed `maxAttempts` times, so they stop blocking the shard */
+  deadLetterSink?: IDeadLetterSink;
+  /** Failed attempts before a record is dead-lettered (default: 3) */
+  maxAttempts?: number;
+  /** Keeps malformed, invalid and unknown events instead of dropping them */
+  quarantineStore?: IQuarantineStore;
+  /** Decoder chain applied to record data before JSON parsing (default: DEFAULT_DECODERS) */
+  decoders?: RecordDecoder[];
+  /** Receives batch, per-event and iterator age metrics, flushed once per batch */
+  metrics?: IMetrics;
+  /**
+   * No new record is started once less invocation time than this is left (default: 5000).
+   * Only applies when processBatch is given the invocation context.
+   */
+  timeoutMarginMs?: number;
+  /** Outcome per error classification, on top of DEFAULT_ERROR_OUTCOMES */
+  errorOutcomes?: Partial<Record<ErrorClassification, ErrorOutcome>>;
+}
+
 /**
  * AWS Lambda handler for processing Kinesis stream events
  *
  * Features:
- * - Batch processing
- * - Schema validation
- * - Partial failure handling (uses Lambda's built-in retry mechanism)
- * - Structured logging
+ * - Batch processing, ordered per partition key
+ * - KPL aggregated records, unpacked into their user records
+ * - gzip/deflate compressed and newline-delimited payloads, via a pluggable decoder chain
+ * - Producer envelope and flat event formats
+ * - Schema validation, with rejected events optionally quarantined
+ * - Idempotent event application keyed by eventId
+ * - Partial failure handling (uses Lambda's built-in retry mechanism), with the outcome of
+ *   a failed record chosen by the classification of its error
+ * - Stops starting records shortly before the Lambda timeout and reports the rest for retry
+ * - Optional dead-letter sink for records that keep failing
+ * - Structured logging, tagged with the correlationId, eventId and aggregateId of the record
+ * - Optional metrics: batch outcome counts, iterator age and per-event latency
+ * - OpenTelemetry spans per record and processor call, linked to the producer's trace
  *
- * Note: Retries, DLQ, and concurrency are handled by Lambda configuration
+ * Note: Retries and concurrency are handled by Lambda configuration
  */
 export class KinesisHandler {
-  constructor(private processors: EventProcessor[]) {}
+  private readonly maxConcurrency: number;
+  private readonly failureMode: BatchFailureMode;
+  private readonly idempotencyStore?: IIdempotencyStore;
+  private readonly deadLetterSink?: IDeadLetterSink;
+  private readonly maxAttempts: number;
+  private readonly quarantineStore?: IQuarantineStore;
+  private readonly decoders: RecordDecoder[];
+  private readonly metrics?: IMetrics;
+  private readonly timeoutMarginMs: number;
+  private readonly errorOutcomes: Record<ErrorClassification, ErrorOutcome>;
+  private readonly sequenceTracker = new AggregateSequenceTracker();
+  private readonly failureAttempts = new FailureAttemptTracker();
+
+  constructor(
+    private processors: EventProcessor[],
+    options: KinesisHandlerOptions = {}
+  ) {
+    this.maxConcurrency = options.maxConcurrency ?? Infinity;
+    this.failureMode = options.failureMode ?? 'report-all';
+    this.idempotencyStore = options.idempotencyStore;
+    this.deadLetterSink = options.deadLetterSink;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.quarantineStore = options.quarantineStore;
+    this.decoders = options.decoders ?? DEFAULT_DECODERS;
+    this.metrics = options.metrics;
+    this.timeoutMarginMs = options.timeoutMarginMs ?? DEFAULT_TIMEOUT_MARGIN_MS;
+    this.errorOutcomes = {
+      retryable: options.errorOutcomes?.retryable ?? DEFAULT_ERROR_OUTCOMES.retryable,
+      permanent: options.errorOutcomes?.permanent ?? DEFAULT_ERROR_OUTCOMES.permanent,
+      skip: options.errorOutcomes?.skip ?? DEFAULT_ERROR_OUTCOMES.skip,
+    };
+  }
+
+  /**
+   * With an invocation context, records that have not been started when the remaining
+   * time drops below `timeoutMarginMs` are deferred: reported as item failures, so only
+   * they are retried instead of the whole batch after a timeout. The same point in time
+   * is the deadline for work inside a record, such as repository retries.
+   */
+  async processBatch(
+    records: KinesisStreamRecord[],
+    context?: InvocationContext
+  ): Promise<KinesisStreamBatchResponse> {
+    return (await this.processBatchWithResults(records, context)).response;
+  }
 
-  async processBatch(records: KinesisStreamRecord[]): Promise<KinesisStreamBatchResponse> {
+  /**
+   * Like processBatch, but also returns the outcome of every event, e.g. for tools that
+   * resubmit records and need to know more than whether Lambda would retry them
+   */
+  async processBatchWithResults(
+    records: KinesisStreamRecord[],
+    context?: InvocationContext
+  ): Promise<BatchResult> {
     const startTime = Date.now();
+    this.recordIteratorAge(records, startTime);
 
     try {
-      const results = await Promise.all(records.map((record) => this.processRecord(record)));
+      const userRecords = records.flatMap((record) => this.unpackRecord(record));
+      const total = userRecords.length;
+      const groups = this.groupByPartitionKey(userRecords);
+      const deadline =
+        context && startTime + context.getRemainingTimeInMillis() - this.timeoutMarginMs;
+      const shardCheckpoints: ShardCheckpoints = new Map();
+      const groupResults = await withDeadline(deadline, () =>
+        mapWithConcurrency(groups, this.maxConcurrency, (group) =>
+          this.processGroup(group, shardCheckpoints, context)
+        )
+      );
+
+      // Restore the original batch order so failures are reported by position in the shard
+      const resultByRecord = new Map(groupResults.flat().map((r) => [r.record, r]));
+      const results = userRecords.map(({ record }) => resultByRecord.get(record)!);
 
-      const failures = results.filter((r) => !r.success);
+      const failures = results.filter((r) => !r.success && !r.skipped && !r.deferred);
+      const skipped = results.filter((r) => r.skipped);
+      const deferred = results.filter((r) => r.deferred);
       const successes = results.filter((r) => r.success);
+      const deadLettered = results.filter((r) => r.deadLettered);
+      const rejected = results.filter((r) => r.rejected);
+      const quarantined = results.filter((r) => r.quarantined);
 
       logger.info(
         {
-          total: results.length,
+          total,
+          records: records.length,
           successes: successes.length,
           failures: failures.length,
+          skipped: skipped.length,
+          deferred: deferred.length,
+          deadLettered: deadLettered.length,
+          rejected: rejected.length,
+          quarantined: quarantined.length,
+          groups: groups.length,
+          failureMode: this.failureMode,
           duration: Date.now() - startTime,
         },
         'Batch processing complete'
       );
 
+      this.recordBatchMetrics({
+        [MetricName.BATCH_SIZE]: total,
+        [MetricName.RECORDS_SUCCEEDED]: successes.length,
+        [MetricName.RECORDS_FAILED]: failures.length,
+        [MetricName.RECORDS_SKIPPED]: skipped.length,
+        [MetricName.RECORDS_DEFERRED]: deferred.length,
+        [MetricName.RECORDS_INVALID]: rejected.length,
+        [MetricName.RECORDS_DEAD_LETTERED]: deadLettered.length,
+        [MetricName.RECORDS_QUARANTINED]: quarantined.length,
+      });
+
+      if (deferred.length > 0) {
+        logger.warn(
+          {
+            deferred: deferred.length,
+            total,
+            processed: total - deferred.length,
+            remainingTime: context?.getRemainingTimeInMillis(),
+            timeoutMarginMs: this.timeoutMarginMs,
+          },
+          'Invocation about to time out, deferring unprocessed records'
+        );
+      }
+
+      const reported =
+        this.failureMode === 'checkpoint'
+          ? this.checkpointsPerShard(results)
+          : results.filter((r) => !r.success);
+
+      // Sub-records report the sequence number of their aggregated parent, once per parent
+      const failedSequenceNumbers = new Set(reported.map((f) => f.record.kinesis.sequenceNumber));
+
       return {
-        batchItemFailures: failures.map((f) => ({
-          itemIdentifier: f.record.kinesis.sequenceNumber,
-        })),
+        response: {
+          batchItemFailures: [...failedSequenceNumbers].map((sequenceNumber) => ({
+            itemIdentifier: sequenceNumber,
+          })),
+        },
+        results,
       };
     } catch (error) {
       logger.error({ err: (error as Error).message }, 'Fatal error in batch processing');
       throw error;
+    } finally {
+      this.metrics?.flush();
+    }
+  }
+
+  /**
+   * Records how far behind the stream the batch is, from the oldest record's arrival time
+   */
+  private recordIteratorAge(records: KinesisStreamRecord[], now: number): void {
+    if (!this.metrics || records.length === 0) {
+      return;
+    }
+
+    const oldestArrival = Math.min(
+      ...records.map((r) => r.kinesis.approximateArrivalTimestamp * 1000)
+    );
+    this.metrics.record(MetricName.ITERATOR_AGE, Math.max(0, now - oldestArrival), 'Milliseconds');
+  }
+
+  private recordBatchMetrics(counts: Record<string, number>): void {
+    for (const [name, value] of Object.entries(counts)) {
+      this.metrics?.record(name, value, 'Count');
+    }
+  }
+
+  /**
+   * Unpacks KPL aggregates and decodes every user record into its events before
+   * grouping, as the user records inside one aggregate can carry different partition
+   * keys. A record that cannot be decoded is kept whole, carrying the error.
+   */
+  private unpackRecord(record: KinesisStreamRecord): DecodedUserRecord[] {
+    let userRecords: KinesisUserRecord[];
+    try {
+      userRecords = deaggregate(record);
+    } catch (error) {
+      return [{ record, decoded: decodingFailure(error) }];
+    }
+
+    return userRecords.flatMap((userRecord) => this.decodeUserRecord(userRecord));
+  }
+
+  /**
+   * Runs the decoder chain over the record data. A record decoding into several events
+   * is split into one record per event, holding that event as its data, so each can be
+   * quarantined, dead-lettered and resubmitted on its own.
+   */
+  private decodeUserRecord(record: KinesisUserRecord): DecodedUserRecord[] {
+    let payloads: Buffer[];
+    try {
+      payloads = decodePayloads(Buffer.from(record.kinesis.data, 'base64'), this.decoders);
+    } catch (error) {
+      return [{ record, decoded: decodingFailure(error) }];
+    }
+
+    if (payloads.length === 1) {
+      return [{ record, decoded: decodeEvent(payloads[0]) }];
+    }
+
+    return payloads.map((payload, eventIndex) => ({
+      record: {
+        ...record,
+        kinesis: { ...record.kinesis, data: payload.toString('base64'), eventIndex },
+      },
+      decoded: decodeEvent(payload),
+    }));
+  }
+
+  /**
+   * Groups records by partition key, keeping the shard order inside each group.
+   * Records sharing a key (e.g. the same user) must be applied one after another,
+   * otherwise a progress change can overtake the creation of its limit.
+   */
+  private groupByPartitionKey(records: DecodedUserRecord[]): DecodedUserRecord[][] {
+    const groups = new Map<string, DecodedUserRecord[]>();
+
+    for (const record of records) {
+      const key = record.record.kinesis.partitionKey;
+      const group = groups.get(key);
+      if (group) {
+        group.push(record);
+      } else {
+        groups.set(key, [record]);
+      }
+    }
+
+    return [...groups.values()];
+  }
+
+  /**
+   * The group stops at its first failure: applying a later event of the same partition
+   * key would overtake the failed one, which is then rejected as stale on retry. The
+   * remaining records are skipped and reported for retry along with the failed one.
+   *
+   * In checkpoint mode the group also stops before any record at or past the checkpoint
+   * another group has set for the same shard: Lambda replays
+   * the shard from there, so applying such a record now would apply it twice. Records
+   * other groups applied before the checkpoint was set can still lie past it; only the
+   * idempotency store keeps those from being applied twice on replay.
+   */
+  private async processGroup(
+    records: DecodedUserRecord[],
+    shardCheckpoints: ShardCheckpoints,
+    context?: InvocationContext
+  ): Promise<ProcessingResult[]> {
+    const results: ProcessingResult[] = [];
+
+    for (const [index, { record, decoded }] of records.entries()) {
+      if (this.isRunningOutOfTime(context)) {
+        results.push(
+          ...records.slice(index).map((r) => ({ record: r.record, success: false, deferred: true }))
+        );
+        break;
+      }
+
+      if (this.failureMode === 'checkpoint' && isPastCheckpoint(record, shardCheckpoints)) {
+        const remaining = records.slice(index);
+        logger.warn(
+          {
+            partitionKey: record.kinesis.partitionKey,
+            checkpoint: String(shardCheckpoints.get(shardIdOf(record))),
+            skippedSequenceNumbers: remaining.map((r) => r.record.kinesis.sequenceNumber),
+          },
+          'Skipping records past the shard checkpoint'
+        );
+        results.push(
+          ...remaining.map((r) => ({ record: r.record, success: false, skipped: true }))
+        );
+        break;
+      }
+
+      const result = await this.processRecord(record, decoded);
+      results.push(result);
+
+      if (result.success && this.deadLetterSink) {
+        this.failureAttempts.clear(userRecordId(record));
+      }
+
+      if (!result.success) {
+        if (this.failureMode === 'checkpoint') {
+          setCheckpoint(record, shardCheckpoints);
+        }
+        const remaining = records.slice(index + 1);
+        if (remaining.length > 0) {
+          logger.warn(
+            {
+              partitionKey: record.kinesis.partitionKey,
+              failedSequenceNumber: record.kinesis.sequenceNumber,
+              skippedSequenceNumbers: remaining.map((r) => r.record.kinesis.sequenceNumber),
+            },
+            'Skipping remaining records for partition key after failure'
+          );
+        }
+        results.push(
+          ...remaining.map((r) => ({ record: r.record, success: false, skipped: true }))
+        );
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  private isRunningOutOfTime(context?: InvocationContext): boolean {
+    return context !== undefined && context.getRemainingTimeInMillis() < this.timeoutMarginMs;
+  }
+
+  /**
+   * Picks the first failed record of every shard. Results are in batch order, which is
+   * sequence number order within a shard, so skipped records always come after it.
+   */
+  private checkpointsPerShard(results: ProcessingResult[]): ProcessingResult[] {
+    const checkpoints = new Map<string, ProcessingResult>();
+
+    for (const result of results) {
+      const shardId = shardIdOf(result.record);
+      if (!result.success && !checkpoints.has(shardId)) {
+        checkpoints.set(shardId, result);
+      }
+    }
+
+    for (const [shardId, checkpoint] of checkpoints) {
+      logger.info(
+        { shardId, sequenceNumber: checkpoint.record.kinesis.sequenceNumber },
+        'Reporting shard checkpoint for retry'
+      );
     }
+
+    return [...checkpoints.values()];
   }
 
-  private async processRecord(record: KinesisStreamRecord): Promise<ProcessingResult> {
+  private processRecord(
+    record: KinesisUserRecord,
+    decoded: DecodedRecord
+  ): Promise<ProcessingResult> {
+    const data = 'data' in decoded ? decoded.data : undefined;
+    const context = {
+      ...eventLogContext(data),
+      subSequenceNumber: record.kinesis.subSequenceNumber,
+      eventIndex: record.kinesis.eventIndex,
+    };
+    const attributes = {
+      [SpanAttribute.SEQUENCE_NUMBER]: record.kinesis.sequenceNumber,
+      [SpanAttribute.EVENT_TYPE]: eventTypeOf(data),
+    };
+
+    return withLogContext(context, () =>
+      withSpan(
+        'processRecord',
+        attributes,
+        () => this.applyRecord(record, decoded),
+        upstreamLinks(data)
+      )
+    );
+  }
+
+  private async applyRecord(
+    record: KinesisUserRecord,
+    decoded: DecodedRecord
+  ): Promise<ProcessingResult> {
     const sequenceNumber = record.kinesis.sequenceNumber;
+    const parsedData = 'data' in decoded ? decoded.data : undefined;
 
     try {
-      const data = Buffer.from(record.kinesis.data, 'base64').toString('utf-8');
-      const parsedData = JSON.parse(data) as unknown;
+      if ('error' in decoded) {
+        logger.warn(
+          { sequenceNumber, reason: decoded.reason, error: decoded.error.message },
+          'Event data could not be decoded, skipping record'
+        );
+        return await this.quarantine(record, decoded.reason, [decoded.error.message]);
+      }
 
       const validationResult = await validateEvent(parsedData);
 
@@ -69,38 +536,260 @@ export class KinesisHandler {
         logger.warn(
           {
             sequenceNumber,
+            reason: validationResult.reason,
             error: validationResult.error,
           },
           'Event validation failed, skipping record'
         );
-        return { record, success: true };
+        return await this.quarantine(
+          record,
+          validationResult.reason ?? 'validation-failed',
+          validationResult.errors ?? [],
+          parsedData
+        );
       }
 
       const { eventType } = validationResult;
+      const event = validationResult.validatedData as ValidatedEventData;
+      this.trackAggregateSequence(event, sequenceNumber);
+
       const processor = eventType && this.processors.find((p) => p.canHandle(eventType));
 
       if (!processor) {
         logger.warn({ sequenceNumber, eventType }, 'No processor found for event type, skipping');
+        return await this.quarantine(
+          record,
+          'unknown-event-type',
+          [`No processor found for event type: ${String(eventType)}`],
+          parsedData
+        );
+      }
+
+      const { eventId } = event;
+
+      if (this.idempotencyStore && (await this.idempotencyStore.isProcessed(eventId))) {
+        logger.info({ sequenceNumber, eventId, eventType }, 'Event already applied, skipping');
         return { record, success: true };
       }
 
-      await processor.processEvent(validationResult.validatedData as ValidatedEventData);
+      await this.applyEvent(processor, event);
+      await this.markProcessed(eventId, sequenceNumber);
 
       logger.debug({ sequenceNumber, eventType }, 'Record processed successfully');
       return { record, success: true };
     } catch (error) {
-      if (error instanceof SkippedRecordError) {
-        logger.info({ sequenceNumber }, 'Record skipped');
-        return { record, success: true };
+      const { code: errorCode, classification } = classifyError(error);
+      const outcome = this.errorOutcomes[classification];
+      const reason = (error as Error).message;
+
+      if (outcome === 'acknowledge') {
+        if (classification === 'skip') {
+          logger.info({ sequenceNumber, errorCode, reason }, 'Record skipped');
+        } else {
+          logger.warn(
+            { sequenceNumber, errorCode, classification, err: reason },
+            'Record acknowledged without being applied'
+          );
+        }
+        return { record, success: true, acknowledgedAs: classification, errorCode };
       }
 
-      logger.error({ sequenceNumber, err: (error as Error).message }, 'Record processing failed');
+      logger.error(
+        { sequenceNumber, errorCode, classification, outcome, err: reason },
+        'Record processing failed'
+      );
 
-      return {
+      return this.handleFailure(
         record,
-        success: false,
-        error: new ProcessingError('Unknown error', error),
-      };
+        parsedData,
+        new ProcessingError('Unknown error', error),
+        errorCode,
+        outcome
+      );
+    }
+  }
+
+  /**
+   * Hands the event to its processor, recording its latency by event type and brand
+   */
+  private async applyEvent(processor: EventProcessor, event: ValidatedEventData): Promise<void> {
+    const dimensions = { EventType: event.eventType, BrandId: event.brandId };
+    const attributes = {
+      [SpanAttribute.EVENT_TYPE]: event.eventType,
+      [SpanAttribute.USER_LIMIT_ID]: 'userLimitId' in event ? event.userLimitId : undefined,
+      [SpanAttribute.PROCESSOR]: processor.constructor.name,
+    };
+
+    try {
+      await timed(this.metrics, MetricName.EVENT_PROCESSING_LATENCY, dimensions, () =>
+        withSpan('EventProcessor.processEvent', attributes, () => processor.processEvent(event))
+      );
+    } catch (error) {
+      if (error instanceof UserLimitExceededError) {
+        this.metrics?.record(MetricName.USER_LIMIT_EXCEEDED, 1, 'Count', dimensions);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Acknowledges a rejected record, keeping it in the quarantine store when one is
+   * configured. A failing store fails the record, so it is retried rather than lost.
+   */
+  private async quarantine(
+    record: KinesisUserRecord,
+    reason: QuarantineReason,
+    errors: string[],
+    payload?: unknown
+  ): Promise<ProcessingResult> {
+    if (!this.quarantineStore) {
+      return { record, success: true, rejected: true };
     }
+
+    await this.quarantineStore.put(createQuarantineEntry(record, reason, errors, payload));
+    logger.info({ sequenceNumber: record.kinesis.sequenceNumber, reason }, 'Record quarantined');
+
+    return { record, success: true, rejected: true, quarantined: true };
+  }
+
+  /**
+   * Reports the failure for retry until the record has failed `maxAttempts` times - or
+   * straight away for the 'dead-letter' outcome - then hands it to the dead-letter sink
+   * and acknowledges it. If the sink itself fails the record is reported as failed, so it
+   * is retried rather than lost.
+   */
+  private async handleFailure(
+    record: KinesisUserRecord,
+    payload: unknown,
+    error: ProcessingError,
+    errorCode: string,
+    outcome: Exclude<ErrorOutcome, 'acknowledge'>
+  ): Promise<ProcessingResult> {
+    const failure: ProcessingResult = { record, success: false, error };
+
+    if (!this.deadLetterSink) {
+      return failure;
+    }
+
+    const sequenceNumber = record.kinesis.sequenceNumber;
+    const attempts = this.failureAttempts.recordFailure(userRecordId(record));
+
+    if (outcome === 'retry' && attempts.count < this.maxAttempts) {
+      logger.info(
+        { sequenceNumber, attempt: attempts.count, maxAttempts: this.maxAttempts },
+        'Record will be retried'
+      );
+      return failure;
+    }
+
+    try {
+      await this.deadLetterSink.send({
+        record,
+        payload,
+        errors: describeErrorChain(error),
+        errorCode,
+        attempts: { ...attempts, maxAttempts: this.maxAttempts },
+        deadLetteredAt: Date.now(),
+      });
+    } catch (sinkError) {
+      logger.error(
+        { sequenceNumber, err: (sinkError as Error).message },
+        'Failed to send record to dead-letter sink'
+      );
+      return failure;
+    }
+
+    this.failureAttempts.clear(userRecordId(record));
+    logger.warn(
+      { sequenceNumber, errorCode, attempts: attempts.count },
+      'Record sent to dead-letter sink'
+    );
+
+    return { record, success: true, deadLettered: true, error };
+  }
+
+  private trackAggregateSequence(event: ValidatedEventData, sequenceNumber: string): void {
+    if (event.aggregateId === undefined || event.sequenceNumber === undefined) {
+      return;
+    }
+
+    const observation = this.sequenceTracker.observe(event.aggregateId, event.sequenceNumber);
+    const context = {
+      sequenceNumber,
+      aggregateId: event.aggregateId,
+      aggregateSequenceNumber: event.sequenceNumber,
+      lastAggregateSequenceNumber: observation.lastSequenceNumber,
+    };
+
+    if (observation.gap > 0) {
+      logger.warn({ ...context, gap: observation.gap }, 'Aggregate sequence gap detected');
+    } else if (observation.outOfOrder) {
+      logger.debug(context, 'Aggregate sequence number already seen');
+    }
+  }
+
+  /**
+   * The event is already applied at this point, so a failure here is logged rather than
+   * failing the record - a retry would apply it a second time.
+   */
+  private async markProcessed(eventId: string, sequenceNumber: string): Promise<void> {
+    if (!this.idempotencyStore) {
+      return;
+    }
+
+    try {
+      await this.idempotencyStore.markProcessed(eventId);
+    } catch (error) {
+      logger.error(
+        { sequenceNumber, eventId, err: (error as Error).message },
+        'Failed to record applied event in idempotency store'
+      );
+    }
+  }
+}
+
+function decodeEvent(payload: Buffer): DecodedRecord {
+  try {
+    return { data: normalizeEvent(parseJsonPayload(payload)) };
+  } catch (error) {
+    return decodingFailure(error);
+  }
+}
+
+function eventTypeOf(data: unknown): string | undefined {
+  const eventType = (data as { eventType?: unknown } | undefined)?.eventType;
+  return typeof eventType === 'string' ? eventType : undefined;
+}
+
+function decodingFailure(error: unknown): DecodedRecord {
+  const reason: DecodingFailureReason =
+    error instanceof MalformedJsonError
+      ? 'malformed-json'
+      : error instanceof AggregatedRecordError
+        ? 'malformed-aggregate'
+        : 'malformed-encoding';
+
+  return { error: error as Error, reason };
+}
+
+function shardIdOf(record: KinesisUserRecord): string {
+  return record.eventID.split(':')[0];
+}
+
+/**
+ * Sub-records of an aggregate share its sequence number, so a record at the checkpoint
+ * itself is replayed as well
+ */
+function isPastCheckpoint(record: KinesisUserRecord, checkpoints: ShardCheckpoints): boolean {
+  const checkpoint = checkpoints.get(shardIdOf(record));
+  return checkpoint !== undefined && BigInt(record.kinesis.sequenceNumber) >= checkpoint;
+}
+
+function setCheckpoint(record: KinesisUserRecord, checkpoints: ShardCheckpoints): void {
+  const shardId = shardIdOf(record);
+  const sequenceNumber = BigInt(record.kinesis.sequenceNumber);
+  const checkpoint = checkpoints.get(shardId);
+  if (checkpoint === undefined || sequenceNumber < checkpoint) {
+    checkpoints.set(shardId, sequenceNumber);
   }
 }
@@ -0,0 +1,186 @@
+import { KinesisStreamRecord } from 'aws-lambda';
+import { Buffer } from 'buffer';
+import { createHash } from 'crypto';
+import { AggregatedRecordError } from '../types/errors';
+import { KinesisUserRecord } from './user-record';
+
+/** Prefix the KPL writes in front of every aggregated record */
+export const KPL_MAGIC = Buffer.from([0xf3, 0x89, 0x9a, 0xc2]);
+const MD5_LENGTH = 16;
+
+/** One user record inside the protobuf `AggregatedRecord` message */
+export interface AggregatedUserRecord {
+  partitionKey: string;
+  explicitHashKey?: string;
+  data: Buffer;
+}
+
+export function isAggregatedRecord(data: Buffer): boolean {
+  return (
+    data.length >= KPL_MAGIC.length + MD5_LENGTH &&
+    data.subarray(0, KPL_MAGIC.length).equals(KPL_MAGIC)
+  );
+}
+
+/**
+ * Unpacks a KPL aggregated record into one record per user record, in aggregation
+ * order. Records that are not aggregated are returned as they are.
+ * Throws AggregatedRecordError when the checksum or the protobuf message is invalid.
+ */
+export function deaggregate(record: KinesisStreamRecord): KinesisUserRecord[] {
+  const data = Buffer.from(record.kinesis.data, 'base64');
+
+  if (!isAggregatedRecord(data)) {
+    return [record];
+  }
+
+  return parseAggregatedRecord(data).map((userRecord, subSequenceNumber) => ({
+    ...record,
+    kinesis: {
+      ...record.kinesis,
+      partitionKey: userRecord.partitionKey,
+      explicitHashKey: userRecord.explicitHashKey,
+      data: userRecord.data.toString('base64'),
+      subSequenceNumber,
+    },
+  }));
+}
+
+/**
+ * Reads the user records of an aggregated record: magic bytes, the protobuf
+ * `AggregatedRecord` message, then the MD5 digest of that message
+ */
+export function parseAggregatedRecord(data: Buffer): AggregatedUserRecord[] {
+  const message = data.subarray(KPL_MAGIC.length, data.length - MD5_LENGTH);
+  const checksum = data.subarray(data.length - MD5_LENGTH);
+
+  if (!createHash('md5').update(message).digest().equals(checksum)) {
+    throw new AggregatedRecordError('checksum mismatch');
+  }
+
+  const partitionKeys: string[] = [];
+  const explicitHashKeys: string[] = [];
+  const records: Array<{ partitionKeyIndex: number; explicitHashKeyIndex?: number; data: Buffer }> =
+    [];
+
+  for (const field of readFields(message)) {
+    if (field.number === 1 && field.bytes) {
+      partitionKeys.push(field.bytes.toString('utf-8'));
+    } else if (field.number === 2 && field.bytes) {
+      explicitHashKeys.push(field.bytes.toString('utf-8'));
+    } else if (field.number === 3 && field.bytes) {
+      records.push(readRecord(field.bytes));
+    }
+  }
+
+  return records.map((record, index) => {
+    const partitionKey = partitionKeys[record.partitionKeyIndex];
+    if (partitionKey === undefined) {
+      throw new AggregatedRecordError(
+        `record ${index} refers to unknown partition key ${record.partitionKeyIndex}`
+      );
+    }
+
+    return {
+      partitionKey,
+      explicitHashKey:
+        record.explicitHashKeyIndex === undefined
+          ? undefined
+          : explicitHashKeys[record.explicitHashKeyIndex],
+      data: record.data,
+    };
+  });
+}
+
+// Record { uint64 partition_key_index = 1; uint64 explicit_hash_key_index = 2;
+//          bytes data = 3; repeated Tag tags = 4; }
+function readRecord(message: Buffer): {
+  partitionKeyIndex: number;
+  explicitHashKeyIndex?: number;
+  data: Buffer;
+} {
+  let partitionKeyIndex: number | undefined;
+  let explicitHashKeyIndex: number | undefined;
+  let data: Buffer | undefined;
+
+  for (const field of readFields(message)) {
+    if (field.number === 1 && field.varint !== undefined) {
+      partitionKeyIndex = field.varint;
+    } else if (field.number === 2 && field.varint !== undefined) {
+      explicitHashKeyIndex = field.varint;
+    } else if (field.number === 3 && field.bytes) {
+      data = field.bytes;
+    }
+  }
+
+  if (partitionKeyIndex === undefined || data === undefined) {
+    throw new AggregatedRecordError('record without partition key index or data');
+  }
+
+  return { partitionKeyIndex, explicitHashKeyIndex, data };
+}
+
+interface ProtobufField {
+  number: number;
+  varint?: number;
+  bytes?: Buffer;
+}
+
+/**
+ * Walks the fields of a protobuf message. Only varint and length-delimited values are
+ * returned; fixed-width fields are skipped, as the aggregation format does not use them.
+ */
+function* readFields(message: Buffer): Generator<ProtobufField> {
+  let offset = 0;
+
+  const readVarint = (): number => {
+    let value = 0;
+    let multiplier = 1;
+
+    for (;;) {
+      if (offset >= message.length) {
+        throw new AggregatedRecordError('truncated protobuf message');
+      }
+      const byte = message[offset++];
+      value += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+      multiplier *= 128;
+    }
+  };
+
+  const skip = (length: number): void => {
+    if (offset + length > message.length) {
+      throw new AggregatedRecordError('truncated protobuf message');
+    }
+    offset += length;
+  };
+
+  while (offset < message.length) {
+    const key = readVarint();
+    const number = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    switch (wireType) {
+      case 0:
+        yield { number, varint: readVarint() };
+        break;
+      case 1:
+        skip(8);
+        break;
+      case 2: {
+        const length = readVarint();
+        const start = offset;
+        skip(length);
+        yield { number, bytes: message.subarray(start, offset) };
+        break;
+      }
+      case 5:
+        skip(4);
+        break;
+      default:
+        throw new AggregatedRecordError(`unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
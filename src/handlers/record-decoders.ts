@@ -0,0 +1,208 @@
+import { Buffer } from 'buffer';
+import { gunzipSync, inflateRawSync, inflateSync } from 'zlib';
+import {
+  DecodingError,
+  DecompressionError,
+  MalformedJsonError,
+  UnsupportedEncodingError,
+} from '../types/errors';
+
+/**
+ * One step of the decoder chain. A decoder claims the payloads it recognises and turns
+ * each into one or more payloads, which are passed through the chain again until no
+ * decoder matches; what is left is expected to be a single JSON document.
+ */
+export interface RecordDecoder {
+  /** Used in logs and errors, e.g. 'gzip' */
+  readonly name: string;
+  matches(data: Buffer): boolean;
+  /** Throws a DecodingError subclass when `data` cannot be decoded */
+  decode(data: Buffer): Buffer[];
+}
+
+/** Guards against payloads that keep decoding into further encoded payloads */
+export const MAX_DECODING_DEPTH = 5;
+
+/** Largest payload a single decompression step may produce (default for maxOutputLength) */
+export const DEFAULT_MAX_DECOMPRESSED_BYTES = 10 * 1024 * 1024;
+
+export interface DecoderOptions {
+  /**
+   * Bytes a single decompression step may produce before the record is rejected with a
+   * DecompressionError, so a small compressed record cannot exhaust the Lambda's memory
+   * (default: DEFAULT_MAX_DECOMPRESSED_BYTES)
+   */
+  maxOutputLength?: number;
+}
+
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+
+export function createGzipDecoder(options: DecoderOptions = {}): RecordDecoder {
+  const zlibOptions = { maxOutputLength: maxOutputLengthOf(options) };
+
+  return {
+    name: 'gzip',
+    matches: (data) => data.subarray(0, GZIP_MAGIC.length).equals(GZIP_MAGIC),
+    decode: (data) => [decompress('gzip', zlibOptions, () => gunzipSync(data, zlibOptions))],
+  };
+}
+
+/** zlib-wrapped deflate, recognised by its two-byte header */
+export function createDeflateDecoder(options: DecoderOptions = {}): RecordDecoder {
+  const zlibOptions = { maxOutputLength: maxOutputLengthOf(options) };
+
+  return {
+    name: 'deflate',
+    matches: hasZlibHeader,
+    decode: (data) => [decompress('deflate', zlibOptions, () => inflateSync(data, zlibOptions))],
+  };
+}
+
+/**
+ * Payloads that declare their encoding in a header instead of relying on magic bytes:
+ * `{ "contentEncoding": "gzip" | "deflate", "data": "<base64>" }`. `deflate` accepts both
+ * zlib-wrapped and raw deflate streams.
+ */
+export function createContentEncodingDecoder(options: DecoderOptions = {}): RecordDecoder {
+  const zlibOptions = { maxOutputLength: maxOutputLengthOf(options) };
+
+  return {
+    name: 'content-encoding',
+    matches: (data) => parseContentEncodingHeader(data) !== undefined,
+    decode: (data) => {
+      const { contentEncoding, data: encoded } = parseContentEncodingHeader(data)!;
+      const payload = Buffer.from(encoded, 'base64');
+
+      switch (contentEncoding) {
+        case 'gzip':
+          return [decompress('gzip', zlibOptions, () => gunzipSync(payload, zlibOptions))];
+        case 'deflate':
+          return [
+            decompress('deflate', zlibOptions, () =>
+              hasZlibHeader(payload)
+                ? inflateSync(payload, zlibOptions)
+                : inflateRawSync(payload, zlibOptions)
+            ),
+          ];
+        default:
+          throw new UnsupportedEncodingError(contentEncoding);
+      }
+    },
+  };
+}
+
+export const gzipDecoder = createGzipDecoder();
+export const deflateDecoder = createDeflateDecoder();
+export const contentEncodingDecoder = createContentEncodingDecoder();
+
+/**
+ * Newline-delimited JSON: several lines of which the first is a complete JSON document.
+ * Pretty-printed JSON spans several lines as well, but its first line never parses.
+ */
+export const ndjsonDecoder: RecordDecoder = {
+  name: 'ndjson',
+  matches: (data) => {
+    const lines = nonEmptyLines(data);
+    return lines.length > 1 && isJson(lines[0]);
+  },
+  decode: (data) => nonEmptyLines(data).map((line) => Buffer.from(line, 'utf-8')),
+};
+
+/**
+ * The default decoder chain with its decompression limits taken from `options`
+ */
+export function createDecoders(options: DecoderOptions = {}): RecordDecoder[] {
+  return [
+    createContentEncodingDecoder(options),
+    createGzipDecoder(options),
+    createDeflateDecoder(options),
+    ndjsonDecoder,
+  ];
+}
+
+export const DEFAULT_DECODERS: RecordDecoder[] = createDecoders();
+
+/**
+ * Runs `data` through the decoder chain and returns the decoded payloads in order
+ */
+export function decodePayloads(data: Buffer, decoders: RecordDecoder[], depth = 0): Buffer[] {
+  const decoder = decoders.find((d) => d.matches(data));
+  if (!decoder) {
+    return [data];
+  }
+
+  if (depth >= MAX_DECODING_DEPTH) {
+    throw new DecodingError(`Payload is encoded more than ${MAX_DECODING_DEPTH} levels deep`);
+  }
+
+  return decoder.decode(data).flatMap((payload) => decodePayloads(payload, decoders, depth + 1));
+}
+
+/**
+ * Parses a decoded payload as one JSON document
+ */
+export function parseJsonPayload(data: Buffer): unknown {
+  try {
+    return JSON.parse(data.toString('utf-8'));
+  } catch (error) {
+    throw new MalformedJsonError((error as Error).message);
+  }
+}
+
+function decompress(
+  encoding: string,
+  { maxOutputLength }: { maxOutputLength: number },
+  inflate: () => Buffer
+): Buffer {
+  try {
+    return inflate();
+  } catch (error) {
+    // zlib throws a RangeError (ERR_BUFFER_TOO_LARGE) once the output passes maxOutputLength
+    const reason =
+      error instanceof RangeError
+        ? `decompressed size exceeds ${maxOutputLength} bytes`
+        : (error as Error).message;
+    throw new DecompressionError(encoding, reason);
+  }
+}
+
+function maxOutputLengthOf(options: DecoderOptions): number {
+  return options.maxOutputLength ?? DEFAULT_MAX_DECOMPRESSED_BYTES;
+}
+
+function hasZlibHeader(data: Buffer): boolean {
+  return data.length >= 2 && (data[0] & 0x0f) === 8 && (data[0] * 256 + data[1]) % 31 === 0;
+}
+
+function parseContentEncodingHeader(
+  data: Buffer
+): { contentEncoding: string; data: string } | undefined {
+  if (data[0] !== 0x7b || !data.includes('"contentEncoding"')) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(data.toString('utf-8')) as Record<string, unknown>;
+    return typeof parsed.contentEncoding === 'string' && typeof parsed.data === 'string'
+      ? { contentEncoding: parsed.contentEncoding, data: parsed.data }
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function nonEmptyLines(data: Buffer): string[] {
+  return data
+    .toString('utf-8')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,28 @@
+import { KinesisStreamRecord, KinesisStreamRecordPayload } from 'aws-lambda';
+
+/**
+ * A record as the producer wrote it. One Kinesis record can expand into several:
+ * - user records unpacked from a KPL aggregate share the Kinesis sequence number of
+ *   their parent and are told apart by `subSequenceNumber`, their position in the aggregate
+ * - events decoded from a batch (e.g. NDJSON) carry their position in it as `eventIndex`,
+ *   and their `data` holds only that event
+ */
+export interface KinesisUserRecord extends KinesisStreamRecord {
+  kinesis: KinesisStreamRecordPayload & {
+    subSequenceNumber?: number;
+    explicitHashKey?: string;
+    eventIndex?: number;
+  };
+}
+
+/**
+ * Identifies a record in the stream. Records expanded from one Kinesis record share its
+ * eventID, so their positions inside it are appended.
+ */
+export function userRecordId(record: KinesisUserRecord): string {
+  const { subSequenceNumber, eventIndex } = record.kinesis;
+  const aggregated =
+    subSequenceNumber === undefined ? record.eventID : `${record.eventID}#${subSequenceNumber}`;
+
+  return eventIndex === undefined ? aggregated : `${aggregated}/${eventIndex}`;
+}
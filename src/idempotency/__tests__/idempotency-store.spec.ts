@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { IIdempotencyStore, InMemoryIdempotencyStore } from '../idempotency-store';
+import { DynamoDBIdempotencyStore } from '../dynamodb-idempotency-store';
+import { DynamoDBLocal, startDynamoDBLocal } from '../../test-utils/dynamodb-local';
+
+const TABLE_NAME = 'ProcessedEvents';
+const TTL_SECONDS = 60;
+
+function describeStore(
+  name: string,
+  setup: (now: () => number) => Promise<IIdempotencyStore>,
+  teardown: () => Promise<void> = () => Promise.resolve()
+): void {
+  describe(name, () => {
+    let store: IIdempotencyStore;
+    let currentTime: number;
+
+    beforeEach(async () => {
+      currentTime = 1_700_000_000_000;
+      store = await setup(() => currentTime);
+    });
+
+    afterEach(teardown);
+
+    it('should report unknown events as not processed', async () => {
+      expect(await store.isProcessed('event-1')).toBe(false);
+    });
+
+    it('should report marked events as processed', async () => {
+      await store.markProcessed('event-1');
+
+      expect(await store.isProcessed('event-1')).toBe(true);
+      expect(await store.isProcessed('event-2')).toBe(false);
+    });
+
+    it('should forget events once the TTL has passed', async () => {
+      await store.markProcessed('event-1');
+
+      currentTime += (TTL_SECONDS - 1) * 1000;
+      expect(await store.isProcessed('event-1')).toBe(true);
+
+      currentTime += 1000;
+      expect(await store.isProcessed('event-1')).toBe(false);
+    });
+
+    it('should extend the TTL when an event is marked again', async () => {
+      await store.markProcessed('event-1');
+      currentTime += (TTL_SECONDS - 1) * 1000;
+      await store.markProcessed('event-1');
+      currentTime += 2000;
+
+      expect(await store.isProcessed('event-1')).toBe(true);
+    });
+  });
+}
+
+describe('IdempotencyStore', () => {
+  describeStore('InMemoryIdempotencyStore', (now) =>
+    Promise.resolve(new InMemoryIdempotencyStore(TTL_SECONDS, now))
+  );
+
+  describe('with DynamoDB Local', () => {
+    let dynamo: DynamoDBLocal;
+
+    beforeAll(async () => {
+      dynamo = await startDynamoDBLocal();
+    });
+
+    afterAll(async () => {
+      await dynamo.stop();
+    });
+
+    describeStore(
+      'DynamoDBIdempotencyStore',
+      async (now) => {
+        await dynamo.createTable({
+          TableName: TABLE_NAME,
+          AttributeDefinitions: [{ AttributeName: 'eventId', AttributeType: 'S' }],
+          KeySchema: [{ AttributeName: 'eventId', KeyType: 'HASH' }],
+        });
+        return new DynamoDBIdempotencyStore(dynamo.documentClient, TABLE_NAME, TTL_SECONDS, now);
+      },
+      () => dynamo.deleteTable(TABLE_NAME)
+    );
+  });
+});
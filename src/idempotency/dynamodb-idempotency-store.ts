@@ -0,0 +1,55 @@
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { IIdempotencyStore, DEFAULT_IDEMPOTENCY_TTL_SECONDS } from './idempotency-store';
+import { createDynamoDBDocumentClient } from '../utils/dynamodb-client';
+
+/**
+ * DynamoDB implementation of IIdempotencyStore
+ *
+ * Table schema:
+ * - Partition key: eventId (S)
+ * - expiresAt (N, epoch seconds) should be configured as the table's TTL attribute.
+ *   DynamoDB deletes expired items lazily, so reads also treat them as absent.
+ */
+export class DynamoDBIdempotencyStore implements IIdempotencyStore {
+  private tableName: string;
+
+  constructor(
+    private readonly client: DynamoDBDocumentClient = createDynamoDBDocumentClient(),
+    tableName?: string,
+    private readonly ttlSeconds: number = DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+    private readonly now: () => number = Date.now
+  ) {
+    this.tableName = tableName || process.env.IDEMPOTENCY_TABLE_NAME || 'ProcessedEvents';
+  }
+
+  async isProcessed(eventId: string): Promise<boolean> {
+    const { Item } = await this.client.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: { eventId },
+        ConsistentRead: true,
+      })
+    );
+
+    return !!Item && (Item.expiresAt as number) > this.nowInSeconds();
+  }
+
+  async markProcessed(eventId: string): Promise<void> {
+    const processedAt = this.nowInSeconds();
+
+    await this.client.send(
+      new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          eventId,
+          processedAt,
+          expiresAt: processedAt + this.ttlSeconds,
+        },
+      })
+    );
+  }
+
+  private nowInSeconds(): number {
+    return Math.floor(this.now() / 1000);
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  IIdempotencyStore,
+  InMemoryIdempotencyStore,
+  DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+} from './idempotency-store';
+import { DynamoDBIdempotencyStore } from './dynamodb-idempotency-store';
+import { createDynamoDBDocumentClient } from '../utils/dynamodb-client';
+import { createChildLogger } from '../utils/logger';
+
+const logger = createChildLogger({ service: 'idempotency-store-factory' });
+
+export type IdempotencyStoreType = 'none' | 'inmemory' | 'dynamodb';
+
+/**
+ * Factory function to create IdempotencyStore based on environment configuration
+ *
+ * Environment Variables:
+ * - IDEMPOTENCY_STORE_TYPE: 'none' | 'inmemory' | 'dynamodb' (default: 'inmemory')
+ * - IDEMPOTENCY_TABLE_NAME: DynamoDB table name (required if using dynamodb)
+ * - IDEMPOTENCY_TTL_SECONDS: how long applied event ids are remembered (default: 86400)
+ * - DYNAMODB_ENDPOINT: optional endpoint override, e.g. DynamoDB Local
+ */
+export function createIdempotencyStore(): IIdempotencyStore | undefined {
+  const storeType = (
+    process.env.IDEMPOTENCY_STORE_TYPE || 'inmemory'
+  ).toLowerCase() as IdempotencyStoreType;
+  const ttlSeconds = readTtlSeconds();
+
+  if (storeType === 'none') {
+    return undefined;
+  }
+
+  if (storeType === 'dynamodb') {
+    const tableName = process.env.IDEMPOTENCY_TABLE_NAME;
+    if (!tableName) {
+      logger.warn({}, 'IDEMPOTENCY_TABLE_NAME not set, falling back to default');
+    }
+    return new DynamoDBIdempotencyStore(createDynamoDBDocumentClient(), tableName, ttlSeconds);
+  }
+
+  if (storeType !== 'inmemory') {
+    logger.warn({ storeType }, 'Unknown idempotency store type, falling back to inmemory');
+  }
+
+  return new InMemoryIdempotencyStore(ttlSeconds);
+}
+
+function readTtlSeconds(): number {
+  const raw = process.env.IDEMPOTENCY_TTL_SECONDS;
+  const ttlSeconds = Number(raw);
+
+  if (!raw || !Number.isInteger(ttlSeconds) || ttlSeconds < 1) {
+    if (raw) {
+      logger.warn({ ttlSeconds: raw }, 'Invalid IDEMPOTENCY_TTL_SECONDS, using default');
+    }
+    return DEFAULT_IDEMPOTENCY_TTL_SECONDS;
+  }
+
+  return ttlSeconds;
+}
@@ -0,0 +1,52 @@
+export interface IIdempotencyStore {
+  isProcessed(eventId: string): Promise<boolean>;
+  markProcessed(eventId: string): Promise<void>;
+}
+
+export const DEFAULT_IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Keeps applied event ids for the lifetime of the Lambda container.
+ * Covers retries that land on a warm container; use the DynamoDB store across containers.
+ */
+export class InMemoryIdempotencyStore implements IIdempotencyStore {
+  private expiresAtByEventId: Map<string, number> = new Map();
+
+  constructor(
+    private readonly ttlSeconds: number = DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async isProcessed(eventId: string): Promise<boolean> {
+    const expiresAt = this.expiresAtByEventId.get(eventId);
+    if (expiresAt === undefined) {
+      return false;
+    }
+
+    if (expiresAt <= this.now()) {
+      this.expiresAtByEventId.delete(eventId);
+      return false;
+    }
+
+    return true;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async markProcessed(eventId: string): Promise<void> {
+    this.pruneExpired();
+    // Re-insert so the map stays ordered by expiry
+    this.expiresAtByEventId.delete(eventId);
+    this.expiresAtByEventId.set(eventId, this.now() + this.ttlSeconds * 1000);
+  }
+
+  private pruneExpired(): void {
+    const now = this.now();
+    for (const [eventId, expiresAt] of this.expiresAtByEventId) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.expiresAtByEventId.delete(eventId);
+    }
+  }
+}
@@ -2,28 +2,62 @@ import { config } from 'dotenv';
 import { KinesisStreamEvent, Context, KinesisStreamBatchResponse } from 'aws-lambda';
 import { UserLimitService } from './user-limit/services/user-limit-service';
 import { createUserLimitRepository } from './user-limit/repositories/repository-factory';
+import { createUserLimitServiceOptions } from './user-limit/services/service-config';
 import { KinesisHandler } from './handlers/kinesis-handler';
+import { createKinesisHandlerOptions } from './handlers/handler-config';
+import { createIdempotencyStore } from './idempotency/idempotency-store-factory';
+import { createDeadLetterSink } from './dead-letter/dead-letter-sink-factory';
+import { createQuarantineStore } from './quarantine/quarantine-store-factory';
+import { createMetrics } from './metrics/metrics-factory';
+import { MeteredUserLimitRepository } from './user-limit/repositories/metered-user-limit-repository';
+import { TracedUserLimitRepository } from './user-limit/repositories/traced-user-limit-repository';
+import { createTracing } from './tracing/tracing-factory';
+import { SpanAttribute, withSpan } from './tracing/tracing';
 import { logger } from './utils/logger';
 import { UserLimitEventProcessor } from './processors/user-limit-event-processor';
+import { LimitUserService } from './limit-user/services/limit-user-service';
+import { InMemoryLimitUserRepository } from './limit-user/repositories/limit-user-repository';
+import { LimitUserEventProcessor } from './processors/limit-user-event-processor';
 
 config();
+createTracing();
 
-const repository = createUserLimitRepository();
-const userLimitService = new UserLimitService(repository);
+const metrics = createMetrics();
+const storage = new TracedUserLimitRepository(createUserLimitRepository());
+const repository = metrics ? new MeteredUserLimitRepository(storage, metrics) : storage;
+const userLimitService = new UserLimitService(repository, createUserLimitServiceOptions());
 const userLimitEventProcessor = new UserLimitEventProcessor(userLimitService);
 
-const kinesisHandler = new KinesisHandler([userLimitEventProcessor]);
+const limitUserService = new LimitUserService(new InMemoryLimitUserRepository());
+const limitUserEventProcessor = new LimitUserEventProcessor(limitUserService);
+
+export const kinesisHandler = new KinesisHandler(
+  [userLimitEventProcessor, limitUserEventProcessor],
+  {
+    ...createKinesisHandlerOptions(),
+    idempotencyStore: createIdempotencyStore(),
+    deadLetterSink: createDeadLetterSink(),
+    quarantineStore: createQuarantineStore(),
+    metrics,
+  }
+);
 
 export const functionHandler = async (
   event: KinesisStreamEvent,
-  _context: Context
+  context: Context
 ): Promise<KinesisStreamBatchResponse> => {
   logger.info({ eventSource: 'kinesis', recordCount: event.Records.length }, 'Handler invoked');
 
-  try {
-    return await kinesisHandler.processBatch(event.Records);
-  } catch (error) {
-    logger.error({ err: error }, 'Fatal error in Lambda handler');
-    throw error;
-  }
+  return withSpan(
+    'functionHandler',
+    { [SpanAttribute.RECORD_COUNT]: event.Records.length },
+    async () => {
+      try {
+        return await kinesisHandler.processBatch(event.Records, context);
+      } catch (error) {
+        logger.error({ err: error }, 'Fatal error in Lambda handler');
+        throw error;
+      }
+    }
+  );
 };
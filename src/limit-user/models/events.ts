@@ -0,0 +1,21 @@
+import type * as yup from 'yup';
+import type {
+  limitUserCreatedSchema,
+  limitUserPendingPaymentCreatedSchema,
+  limitUserPendingPaymentProcessedSchema,
+} from '../validation/event-schemas';
+
+export type LimitUserCreatedEvent = yup.InferType<typeof limitUserCreatedSchema>;
+export type LimitUserPendingPaymentCreatedEvent = yup.InferType<
+  typeof limitUserPendingPaymentCreatedSchema
+>;
+export type LimitUserPendingPaymentProcessedEvent = yup.InferType<
+  typeof limitUserPendingPaymentProcessedSchema
+>;
+
+export type LimitUserEvent =
+  | LimitUserCreatedEvent
+  | LimitUserPendingPaymentCreatedEvent
+  | LimitUserPendingPaymentProcessedEvent;
+
+export type LimitUserEventType = LimitUserEvent['eventType'];
@@ -0,0 +1,20 @@
+/**
+ * A payment that was started but not yet settled by the payment provider
+ */
+export interface PendingPayment {
+  paymentId: string;
+  amount: string;
+  currencyCode: string;
+  createdAt: number;
+}
+
+export interface LimitUser {
+  userId: string;
+  brandId: string;
+  currencyCode: string;
+  jurisdiction: string;
+  createdAt: number;
+  /** eventId of the LIMIT_USER_CREATED event the user was created from */
+  createdByEventId?: string;
+  pendingPayments: PendingPayment[];
+}
@@ -0,0 +1,43 @@
+import { LimitUser } from '../models/limit-user';
+import {
+  InvalidLimitUserError,
+  LimitUserAlreadyExistsError,
+  LimitUserNotFoundError,
+} from '../../types/errors';
+
+export interface ILimitUserRepository {
+  save(limitUser: LimitUser): Promise<void>;
+  findById(userId: string): Promise<LimitUser | null>;
+  update(limitUser: LimitUser): Promise<void>;
+}
+
+export class InMemoryLimitUserRepository implements ILimitUserRepository {
+  private users: Map<string, LimitUser> = new Map();
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async save(limitUser: LimitUser): Promise<void> {
+    if (this.users.has(limitUser.userId)) {
+      throw new LimitUserAlreadyExistsError(limitUser.userId);
+    }
+
+    this.users.set(limitUser.userId, limitUser);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async findById(userId: string): Promise<LimitUser | null> {
+    if (!userId || userId.trim() === '') {
+      throw new InvalidLimitUserError('userId cannot be empty');
+    }
+
+    return this.users.get(userId) ?? null;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async update(limitUser: LimitUser): Promise<void> {
+    if (!this.users.has(limitUser.userId)) {
+      throw new LimitUserNotFoundError(limitUser.userId);
+    }
+
+    this.users.set(limitUser.userId, limitUser);
+  }
+}
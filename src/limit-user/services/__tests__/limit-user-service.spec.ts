@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LimitUserService } from '../limit-user-service';
+import { InMemoryLimitUserRepository } from '../../repositories/limit-user-repository';
+import { EventType } from '../../../user-limit/models/events';
+import {
+  CurrencyMismatchError,
+  DuplicateEventError,
+  LimitUserAlreadyExistsError,
+  LimitUserNotFoundError,
+} from '../../../types/errors';
+import { validateEvent } from '../../../user-limit/validation/event-schemas';
+import {
+  LimitUserCreatedEvent,
+  LimitUserPendingPaymentCreatedEvent,
+  LimitUserPendingPaymentProcessedEvent,
+} from '../../models/events';
+
+const NOW = 1_700_000_000_000;
+
+describe('LimitUserService', () => {
+  let service: LimitUserService;
+  let repository: InMemoryLimitUserRepository;
+
+  const createdEvent: LimitUserCreatedEvent = {
+    eventId: 'event-created',
+    eventType: EventType.LIMIT_USER_CREATED,
+    timestamp: new Date(NOW).toISOString(),
+    userId: 'user-123',
+    brandId: 'brand-1',
+    currencyCode: 'SEK',
+    jurisdiction: 'SGA',
+  };
+
+  const paymentCreatedEvent = (
+    paymentId: string,
+    amount: string
+  ): LimitUserPendingPaymentCreatedEvent => ({
+    eventId: `event-${paymentId}`,
+    eventType: EventType.LIMIT_USER_PENDING_PAYMENT_CREATED,
+    timestamp: new Date(NOW).toISOString(),
+    userId: 'user-123',
+    brandId: 'brand-1',
+    payment: { paymentId, amount, currencyCode: 'SEK' },
+  });
+
+  beforeEach(() => {
+    repository = new InMemoryLimitUserRepository();
+    service = new LimitUserService(repository, { now: () => NOW });
+  });
+
+  it('should create a limit user with jurisdiction and no pending payments', async () => {
+    await service.processEvent(createdEvent);
+
+    expect(await service.getLimitUser('user-123')).toEqual({
+      userId: 'user-123',
+      brandId: 'brand-1',
+      currencyCode: 'SEK',
+      jurisdiction: 'SGA',
+      createdAt: NOW,
+      createdByEventId: 'event-created',
+      pendingPayments: [],
+    });
+  });
+
+  it('should acknowledge a replayed create as a duplicate', async () => {
+    await service.processEvent(createdEvent);
+
+    await expect(service.processEvent(createdEvent)).rejects.toThrow(DuplicateEventError);
+  });
+
+  it('should reject creating the same user from another event', async () => {
+    await service.processEvent(createdEvent);
+
+    await expect(
+      service.processEvent({ ...createdEvent, eventId: 'event-created-again' })
+    ).rejects.toThrow(LimitUserAlreadyExistsError);
+  });
+
+  it('should track pending payments and the unsettled amount', async () => {
+    await service.processEvent(createdEvent);
+    await service.processEvent(paymentCreatedEvent('payment-1', '200'));
+    await service.processEvent(paymentCreatedEvent('payment-2', '50.25'));
+
+    const limitUser = await service.getLimitUser('user-123');
+    expect(limitUser.pendingPayments).toEqual([
+      { paymentId: 'payment-1', amount: '200.00', currencyCode: 'SEK', createdAt: NOW },
+      { paymentId: 'payment-2', amount: '50.25', currencyCode: 'SEK', createdAt: NOW },
+    ]);
+    expect(await service.getUnsettledAmount('user-123')).toBe('250.25');
+  });
+
+  it('should refuse to sum pending payments in another currency', async () => {
+    await service.processEvent(createdEvent);
+    await service.processEvent(paymentCreatedEvent('payment-1', '200'));
+    const eurPayment = paymentCreatedEvent('payment-2', '50');
+    await service.processEvent({
+      ...eurPayment,
+      payment: { ...eurPayment.payment, currencyCode: 'EUR' },
+    });
+
+    await expect(service.getUnsettledAmount('user-123')).rejects.toThrow(CurrencyMismatchError);
+    await expect(service.getUnsettledAmount('user-123')).rejects.toThrow(
+      'Payment in EUR cannot be added up in currency SEK of user user-123'
+    );
+  });
+
+  it('should ignore a pending payment that is already recorded', async () => {
+    await service.processEvent(createdEvent);
+    await service.processEvent(paymentCreatedEvent('payment-1', '200'));
+    await service.processEvent(paymentCreatedEvent('payment-1', '200'));
+
+    expect(await service.getUnsettledAmount('user-123')).toBe('200.00');
+  });
+
+  it('should remove a payment once it is processed', async () => {
+    await service.processEvent(createdEvent);
+    await service.processEvent(paymentCreatedEvent('payment-1', '200'));
+    await service.processEvent(paymentCreatedEvent('payment-2', '75'));
+
+    const processedEvent: LimitUserPendingPaymentProcessedEvent = {
+      eventId: 'event-processed',
+      eventType: EventType.LIMIT_USER_PENDING_PAYMENT_PROCESSED,
+      timestamp: new Date(NOW).toISOString(),
+      userId: 'user-123',
+      brandId: 'brand-1',
+      paymentId: 'payment-1',
+    };
+    await service.processEvent(processedEvent);
+
+    const limitUser = await service.getLimitUser('user-123');
+    expect(limitUser.pendingPayments.map((p) => p.paymentId)).toEqual(['payment-2']);
+    expect(await service.getUnsettledAmount('user-123')).toBe('75.00');
+  });
+
+  it('should fail pending payments for an unknown user', async () => {
+    await expect(service.processEvent(paymentCreatedEvent('payment-1', '200'))).rejects.toThrow(
+      LimitUserNotFoundError
+    );
+  });
+
+  it('should validate producer payloads for LIMIT_USER events', async () => {
+    const result = await validateEvent(paymentCreatedEvent('payment-1', '200'));
+    const missingPayment = await validateEvent({
+      eventId: 'event-2',
+      eventType: EventType.LIMIT_USER_PENDING_PAYMENT_CREATED,
+      timestamp: new Date(NOW).toISOString(),
+      userId: 'user-123',
+      brandId: 'brand-1',
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(missingPayment.isValid).toBe(false);
+  });
+});
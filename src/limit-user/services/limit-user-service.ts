@@ -0,0 +1,185 @@
+import { createChildLogger } from '../../utils/logger';
+import { ILimitUserRepository } from '../repositories/limit-user-repository';
+import { EventType } from '../../user-limit/models/events';
+import { LimitUser, PendingPayment } from '../models/limit-user';
+import {
+  CurrencyMismatchError,
+  DuplicateEventError,
+  LimitUserAlreadyExistsError,
+  LimitUserNotFoundError,
+  UnknownEventTypeError,
+} from '../../types/errors';
+import {
+  LimitUserCreatedEvent,
+  LimitUserEvent,
+  LimitUserPendingPaymentCreatedEvent,
+  LimitUserPendingPaymentProcessedEvent,
+} from '../models/events';
+import { formatMinorUnits, toMinorUnits } from '../../utils/money';
+
+const logger = createChildLogger({ service: 'limit-user-service' });
+
+export interface LimitUserServiceOptions {
+  /** Clock used for creation timestamps (default: Date.now) */
+  now?: () => number;
+}
+
+export class LimitUserService {
+  private readonly now: () => number;
+
+  constructor(
+    private repository: ILimitUserRepository,
+    options: LimitUserServiceOptions = {}
+  ) {
+    this.now = options.now ?? Date.now;
+  }
+
+  async processEvent(event: LimitUserEvent): Promise<void> {
+    switch (event.eventType) {
+      case EventType.LIMIT_USER_CREATED:
+        await this.handleLimitUserCreated(event);
+        break;
+      case EventType.LIMIT_USER_PENDING_PAYMENT_CREATED:
+        await this.handlePendingPaymentCreated(event);
+        break;
+      case EventType.LIMIT_USER_PENDING_PAYMENT_PROCESSED:
+        await this.handlePendingPaymentProcessed(event);
+        break;
+      default:
+        throw new UnknownEventTypeError(String((event as { eventType: unknown }).eventType));
+    }
+  }
+
+  async getLimitUser(userId: string): Promise<LimitUser> {
+    const limitUser = await this.repository.findById(userId);
+
+    if (!limitUser) {
+      throw new LimitUserNotFoundError(userId);
+    }
+
+    return limitUser;
+  }
+
+  /**
+   * Sum of the user's pending payments that have not been processed yet, in the user's
+   * currency. There are no exchange rates to convert with, so a pending payment in another
+   * currency fails the sum with CurrencyMismatchError.
+   */
+  async getUnsettledAmount(userId: string): Promise<string> {
+    const { currencyCode, pendingPayments } = await this.getLimitUser(userId);
+
+    const mismatched = pendingPayments.find((payment) => payment.currencyCode !== currencyCode);
+    if (mismatched) {
+      logger.warn(
+        {
+          userId,
+          paymentId: mismatched.paymentId,
+          paymentCurrency: mismatched.currencyCode,
+          userCurrency: currencyCode,
+        },
+        'Cannot sum pending payments in different currencies'
+      );
+      throw new CurrencyMismatchError(userId, currencyCode, mismatched.currencyCode);
+    }
+
+    const total = pendingPayments.reduce(
+      (sum, payment) => sum + toMinorUnits(payment.amount, currencyCode),
+      0n
+    );
+
+    return formatMinorUnits(total, currencyCode);
+  }
+
+  /**
+   * A replayed create that the idempotency store did not catch finds the user it created
+   * and is acknowledged as a duplicate; a create for an existing user from any other
+   * event still fails.
+   */
+  private async handleLimitUserCreated(event: LimitUserCreatedEvent): Promise<void> {
+    const limitUser: LimitUser = {
+      userId: event.userId,
+      brandId: event.brandId,
+      currencyCode: event.currencyCode,
+      jurisdiction: event.jurisdiction,
+      createdAt: this.now(),
+      createdByEventId: event.eventId,
+      pendingPayments: [],
+    };
+
+    try {
+      await this.repository.save(limitUser);
+    } catch (error) {
+      if (!(error instanceof LimitUserAlreadyExistsError)) {
+        throw error;
+      }
+
+      const storedUser = await this.repository.findById(event.userId);
+      if (storedUser?.createdByEventId === event.eventId) {
+        logger.info(
+          { userId: event.userId, eventId: event.eventId },
+          'Ignoring create for a user that was already created from this event'
+        );
+        throw new DuplicateEventError(event.userId, event.eventId);
+      }
+      throw error;
+    }
+  }
+
+  private async handlePendingPaymentCreated(
+    event: LimitUserPendingPaymentCreatedEvent
+  ): Promise<void> {
+    const limitUser = await this.getLimitUser(event.userId);
+    const { payment } = event;
+
+    if (limitUser.pendingPayments.some((p) => p.paymentId === payment.paymentId)) {
+      logger.warn(
+        { userId: event.userId, paymentId: payment.paymentId },
+        'Pending payment already recorded, ignoring'
+      );
+      return;
+    }
+
+    if (payment.currencyCode !== limitUser.currencyCode) {
+      logger.warn(
+        {
+          userId: event.userId,
+          paymentId: payment.paymentId,
+          paymentCurrency: payment.currencyCode,
+          userCurrency: limitUser.currencyCode,
+        },
+        'Pending payment currency differs from user currency'
+      );
+    }
+
+    const pendingPayment: PendingPayment = {
+      paymentId: payment.paymentId,
+      amount: formatMinorUnits(
+        toMinorUnits(payment.amount, payment.currencyCode),
+        payment.currencyCode
+      ),
+      currencyCode: payment.currencyCode,
+      createdAt: this.now(),
+    };
+
+    await this.repository.update({
+      ...limitUser,
+      pendingPayments: [...limitUser.pendingPayments, pendingPayment],
+    });
+  }
+
+  private async handlePendingPaymentProcessed(
+    event: LimitUserPendingPaymentProcessedEvent
+  ): Promise<void> {
+    const limitUser = await this.getLimitUser(event.userId);
+    const { paymentId } = event;
+
+    const remaining = limitUser.pendingPayments.filter((p) => p.paymentId !== paymentId);
+
+    if (remaining.length === limitUser.pendingPayments.length) {
+      logger.warn({ userId: event.userId, paymentId }, 'Processed payment was not pending');
+      return;
+    }
+
+    await this.repository.update({ ...limitUser, pendingPayments: remaining });
+  }
+}
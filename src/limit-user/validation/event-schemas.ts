@@ -0,0 +1,40 @@
+import * as yup from 'yup';
+import { EventType } from '../../user-limit/models/events';
+import { LimitUserEventType } from '../models/events';
+import { baseEventSchema, eventTypeField } from '../../validation/base-event-schema';
+import { VersionedEventSchema, versionedSchema } from '../../validation/versioned-event-schema';
+
+export const limitUserCreatedSchema = baseEventSchema.shape({
+  eventType: eventTypeField(EventType.LIMIT_USER_CREATED),
+  brandId: yup.string().required(),
+  currencyCode: yup.string().required(),
+  jurisdiction: yup.string().required(),
+});
+
+export const limitUserPendingPaymentCreatedSchema = baseEventSchema.shape({
+  eventType: eventTypeField(EventType.LIMIT_USER_PENDING_PAYMENT_CREATED),
+  brandId: yup.string().required(),
+  payment: yup
+    .object({
+      paymentId: yup.string().required(),
+      amount: yup.string().required(),
+      currencyCode: yup.string().required(),
+    })
+    .required(),
+});
+
+export const limitUserPendingPaymentProcessedSchema = baseEventSchema.shape({
+  eventType: eventTypeField(EventType.LIMIT_USER_PENDING_PAYMENT_PROCESSED),
+  brandId: yup.string().required(),
+  paymentId: yup.string().required(),
+});
+
+export const limitUserSchemas: Record<LimitUserEventType, VersionedEventSchema> = {
+  [EventType.LIMIT_USER_CREATED]: versionedSchema(limitUserCreatedSchema),
+  [EventType.LIMIT_USER_PENDING_PAYMENT_CREATED]: versionedSchema(
+    limitUserPendingPaymentCreatedSchema
+  ),
+  [EventType.LIMIT_USER_PENDING_PAYMENT_PROCESSED]: versionedSchema(
+    limitUserPendingPaymentProcessedSchema
+  ),
+};
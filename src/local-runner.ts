@@ -9,7 +9,9 @@ async function runLocal(): Promise<void> {
     const eventsPath = resolve(__dirname, '../data/events.json');
     const eventsData = readFileSync(eventsPath, 'utf-8');
     const events = JSON.parse(eventsData) as Array<{
+      aggregateId: string;
       eventId: string;
+      sequenceNumber: number;
       type: string;
       payload: Record<string, unknown>;
       createdAt: number;
@@ -20,16 +22,8 @@ async function runLocal(): Promise<void> {
 
     const kinesisEvent: KinesisStreamEvent = {
       Records: events.map((event, index) => {
-        const eventPayload = {
-          eventId: event.eventId,
-          eventType: event.type,
-          timestamp: new Date(event.createdAt).toISOString(),
-          userId: event.payload.userId as string,
-          ...event.payload,
-        };
-
-        // Encode as base64 (simulating Kinesis)
-        const data = Buffer.from(JSON.stringify(eventPayload)).toString('base64');
+        // Producer envelopes are sent as-is (base64 encoded, like Kinesis does)
+        const data = Buffer.from(JSON.stringify(event)).toString('base64');
 
         return {
           kinesis: {
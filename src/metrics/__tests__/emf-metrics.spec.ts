@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EmfDocument, EmfMetrics, MAX_VALUES_PER_METRIC } from '../emf-metrics';
+import { InMemoryMetrics, timed } from '../metrics';
+import { MeteredUserLimitRepository } from '../../user-limit/repositories/metered-user-limit-repository';
+import { InMemoryUserLimitRepository } from '../../user-limit/repositories/user-limit-repository';
+
+describe('EmfMetrics', () => {
+  let documents: EmfDocument[];
+  let metrics: EmfMetrics;
+
+  beforeEach(() => {
+    documents = [];
+    metrics = new EmfMetrics(
+      'TestNamespace',
+      (document) => documents.push(document),
+      () => 1000
+    );
+  });
+
+  it('should write documents to stdout as JSON lines by default', () => {
+    const write = vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+
+    try {
+      metrics = new EmfMetrics('TestNamespace', undefined, () => 1000);
+      metrics.record('BatchSize', 3, 'Count');
+      metrics.flush();
+
+      expect(write).toHaveBeenCalledTimes(1);
+      const [line] = write.mock.calls[0] as [string];
+      expect(line.endsWith('\n')).toBe(true);
+      expect(JSON.parse(line)).toMatchObject({ _aws: { Timestamp: 1000 }, BatchSize: 3 });
+    } finally {
+      write.mockRestore();
+    }
+  });
+
+  it('should write one document per set of dimensions', () => {
+    metrics.record('BatchSize', 3, 'Count');
+    metrics.record('Latency', 12, 'Milliseconds', { EventType: 'A', BrandId: 'brand-1' });
+    metrics.record('Latency', 8, 'Milliseconds', { BrandId: 'brand-1', EventType: 'A' });
+    metrics.record('Latency', 5, 'Milliseconds', { EventType: 'B', BrandId: 'brand-1' });
+
+    metrics.flush();
+
+    expect(documents).toEqual([
+      {
+        _aws: {
+          Timestamp: 1000,
+          CloudWatchMetrics: [
+            {
+              Namespace: 'TestNamespace',
+              Dimensions: [[]],
+              Metrics: [{ Name: 'BatchSize', Unit: 'Count' }],
+            },
+          ],
+        },
+        BatchSize: 3,
+      },
+      {
+        _aws: {
+          Timestamp: 1000,
+          CloudWatchMetrics: [
+            {
+              Namespace: 'TestNamespace',
+              Dimensions: [['EventType', 'BrandId']],
+              Metrics: [{ Name: 'Latency', Unit: 'Milliseconds' }],
+            },
+          ],
+        },
+        EventType: 'A',
+        BrandId: 'brand-1',
+        Latency: [12, 8],
+      },
+      expect.objectContaining({ EventType: 'B', Latency: 5 }),
+    ]);
+  });
+
+  it('should split values over several documents and empty the buffer', () => {
+    for (let i = 0; i < MAX_VALUES_PER_METRIC + 1; i++) {
+      metrics.record('Latency', i, 'Milliseconds');
+    }
+    metrics.record('BatchSize', 1, 'Count');
+
+    metrics.flush();
+    metrics.flush();
+
+    expect(documents).toHaveLength(2);
+    expect(documents[0].Latency).toHaveLength(MAX_VALUES_PER_METRIC);
+    expect(documents[0].BatchSize).toBe(1);
+    expect(documents[1].Latency).toBe(MAX_VALUES_PER_METRIC);
+    expect(documents[1]._aws.CloudWatchMetrics[0].Metrics).toEqual([
+      { Name: 'Latency', Unit: 'Milliseconds' },
+    ]);
+  });
+});
+
+describe('timed', () => {
+  it('should record the duration of calls that fail', async () => {
+    const metrics = new InMemoryMetrics();
+
+    await expect(
+      timed(metrics, 'Latency', { Operation: 'save' }, () => Promise.reject(new Error('Failed')))
+    ).rejects.toThrow('Failed');
+
+    expect(metrics.metrics).toEqual([
+      {
+        name: 'Latency',
+        value: expect.any(Number),
+        unit: 'Milliseconds',
+        dimensions: { Operation: 'save' },
+      },
+    ]);
+  });
+});
+
+describe('MeteredUserLimitRepository', () => {
+  it('should record the latency of each call by operation', async () => {
+    const metrics = new InMemoryMetrics();
+    const repository = new MeteredUserLimitRepository(new InMemoryUserLimitRepository(), metrics);
+
+    await repository.findByUserId('user-1');
+    await repository.findById('limit-1');
+
+    expect(metrics.metrics.map((m) => [m.name, m.dimensions.Operation])).toEqual([
+      ['RepositoryLatency', 'findByUserId'],
+      ['RepositoryLatency', 'findById'],
+    ]);
+  });
+});
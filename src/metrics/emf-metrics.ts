@@ -0,0 +1,127 @@
+import { IMetrics, Metric, MetricDimensions, MetricUnit } from './metrics';
+
+/** CloudWatch accepts at most 100 values per metric in one EMF document */
+export const MAX_VALUES_PER_METRIC = 100;
+
+/**
+ * A CloudWatch Embedded Metric Format document: the `_aws` metadata names the metrics
+ * and dimensions, their values and the dimension values are top-level members
+ */
+export interface EmfDocument {
+  _aws: {
+    Timestamp: number;
+    CloudWatchMetrics: Array<{
+      Namespace: string;
+      Dimensions: string[][];
+      Metrics: Array<{ Name: string; Unit: MetricUnit }>;
+    }>;
+  };
+  [member: string]: unknown;
+}
+
+export type EmfWriter = (document: EmfDocument) => void;
+
+/**
+ * Writes each document as one JSON line to stdout. CloudWatch only recognises EMF lines
+ * that hold the bare document, and metrics must not depend on LOG_LEVEL, so they bypass
+ * the logger.
+ */
+export const writeToStdout: EmfWriter = (document) => {
+  process.stdout.write(`${JSON.stringify(document)}\n`);
+};
+
+/**
+ * Publishes metrics as CloudWatch Embedded Metric Format log lines. CloudWatch Logs
+ * extracts the metrics from the Lambda's log stream, so no PutMetricData calls are made.
+ * Values are buffered until `flush`, which writes one document per set of dimensions.
+ */
+export class EmfMetrics implements IMetrics {
+  private buffer: Metric[] = [];
+
+  constructor(
+    private readonly namespace: string,
+    private readonly write: EmfWriter = writeToStdout,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  record(name: string, value: number, unit: MetricUnit, dimensions: MetricDimensions = {}): void {
+    this.buffer.push({ name, value, unit, dimensions });
+  }
+
+  flush(): void {
+    const metrics = this.buffer;
+    this.buffer = [];
+
+    for (const group of groupByDimensions(metrics)) {
+      for (const document of this.toDocuments(group)) {
+        this.write(document);
+      }
+    }
+  }
+
+  /**
+   * Metrics recorded several times become value arrays, split over as many documents as
+   * needed to stay within MAX_VALUES_PER_METRIC
+   */
+  private toDocuments(metrics: Metric[]): EmfDocument[] {
+    const { dimensions } = metrics[0];
+    const units = new Map<string, MetricUnit>();
+    const values = new Map<string, number[]>();
+
+    for (const metric of metrics) {
+      units.set(metric.name, metric.unit);
+      values.set(metric.name, [...(values.get(metric.name) ?? []), metric.value]);
+    }
+
+    const chunks = Math.max(
+      ...[...values.values()].map((v) => Math.ceil(v.length / MAX_VALUES_PER_METRIC))
+    );
+    const documents: EmfDocument[] = [];
+
+    for (let chunk = 0; chunk < chunks; chunk++) {
+      const members: Record<string, number | number[]> = {};
+      for (const [name, all] of values) {
+        const chunkValues = all.slice(
+          chunk * MAX_VALUES_PER_METRIC,
+          (chunk + 1) * MAX_VALUES_PER_METRIC
+        );
+        if (chunkValues.length > 0) {
+          members[name] = chunkValues.length === 1 ? chunkValues[0] : chunkValues;
+        }
+      }
+
+      documents.push({
+        _aws: {
+          Timestamp: this.now(),
+          CloudWatchMetrics: [
+            {
+              Namespace: this.namespace,
+              Dimensions: [Object.keys(dimensions)],
+              Metrics: Object.keys(members).map((name) => ({ Name: name, Unit: units.get(name)! })),
+            },
+          ],
+        },
+        ...dimensions,
+        ...members,
+      });
+    }
+
+    return documents;
+  }
+}
+
+function groupByDimensions(metrics: Metric[]): Metric[][] {
+  const groups = new Map<string, Metric[]>();
+
+  for (const metric of metrics) {
+    const key = JSON.stringify(Object.entries(metric.dimensions).sort());
+    const group = groups.get(key);
+    if (group) {
+      group.push(metric);
+    } else {
+      groups.set(key, [metric]);
+    }
+  }
+
+  return [...groups.values()];
+}
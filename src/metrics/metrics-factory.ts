@@ -0,0 +1,32 @@
+import { IMetrics, InMemoryMetrics } from './metrics';
+import { EmfMetrics } from './emf-metrics';
+import { createChildLogger } from '../utils/logger';
+
+const logger = createChildLogger({ service: 'metrics-factory' });
+
+export type MetricsType = 'none' | 'inmemory' | 'emf';
+
+export const DEFAULT_METRICS_NAMESPACE = 'KinesisHandler';
+
+/**
+ * Factory function to create Metrics based on environment configuration
+ *
+ * Environment Variables:
+ * - METRICS_TYPE: 'none' | 'inmemory' | 'emf' (default: 'none')
+ * - METRICS_NAMESPACE: CloudWatch namespace for emf metrics (default: 'KinesisHandler')
+ */
+export function createMetrics(): IMetrics | undefined {
+  const metricsType = (process.env.METRICS_TYPE || 'none').toLowerCase() as MetricsType;
+
+  switch (metricsType) {
+    case 'none':
+      return undefined;
+    case 'inmemory':
+      return new InMemoryMetrics();
+    case 'emf':
+      return new EmfMetrics(process.env.METRICS_NAMESPACE || DEFAULT_METRICS_NAMESPACE);
+    default:
+      logger.warn({ metricsType }, 'Unknown metrics type, metrics disabled');
+      return undefined;
+  }
+}
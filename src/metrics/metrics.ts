@@ -0,0 +1,75 @@
+export enum MetricName {
+  BATCH_SIZE = 'BatchSize',
+  RECORDS_SUCCEEDED = 'RecordsSucceeded',
+  RECORDS_FAILED = 'RecordsFailed',
+  RECORDS_SKIPPED = 'RecordsSkipped',
+  RECORDS_DEFERRED = 'RecordsDeferred',
+  RECORDS_INVALID = 'RecordsInvalid',
+  RECORDS_DEAD_LETTERED = 'RecordsDeadLettered',
+  RECORDS_QUARANTINED = 'RecordsQuarantined',
+  ITERATOR_AGE = 'IteratorAge',
+  EVENT_PROCESSING_LATENCY = 'EventProcessingLatency',
+  REPOSITORY_LATENCY = 'RepositoryLatency',
+  USER_LIMIT_EXCEEDED = 'UserLimitExceeded',
+}
+
+export type MetricUnit = 'Count' | 'Milliseconds';
+
+/** Dimension name to value, e.g. `{ EventType: 'USER_LIMIT_CREATED', BrandId: 'brand-1' }` */
+export type MetricDimensions = Record<string, string>;
+
+export interface Metric {
+  name: string;
+  value: number;
+  unit: MetricUnit;
+  dimensions: MetricDimensions;
+}
+
+export interface IMetrics {
+  /** Buffers a value until the next flush */
+  record(name: string, value: number, unit: MetricUnit, dimensions?: MetricDimensions): void;
+  /** Publishes the buffered values; called once per batch */
+  flush(): void;
+}
+
+export class InMemoryMetrics implements IMetrics {
+  readonly metrics: Metric[] = [];
+
+  record(name: string, value: number, unit: MetricUnit, dimensions: MetricDimensions = {}): void {
+    this.metrics.push({ name, value, unit, dimensions });
+  }
+
+  flush(): void {}
+
+  /** Values recorded for `name`, optionally only those with matching dimensions */
+  values(name: string, dimensions: MetricDimensions = {}): number[] {
+    return this.metrics
+      .filter(
+        (metric) =>
+          metric.name === name &&
+          Object.entries(dimensions).every(([key, value]) => metric.dimensions[key] === value)
+      )
+      .map((metric) => metric.value);
+  }
+}
+
+/**
+ * Runs `fn` and records how long it took in milliseconds, whether it resolved or threw
+ */
+export async function timed<T>(
+  metrics: IMetrics | undefined,
+  name: string,
+  dimensions: MetricDimensions,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!metrics) {
+    return fn();
+  }
+
+  const startTime = Date.now();
+  try {
+    return await fn();
+  } finally {
+    metrics.record(name, Date.now() - startTime, 'Milliseconds', dimensions);
+  }
+}
@@ -0,0 +1,32 @@
+import { EventProcessor } from './event-processor';
+import { LimitUserService } from '../limit-user/services/limit-user-service';
+import { EventType } from '../user-limit/models/events';
+import { LimitUserEvent, LimitUserEventType } from '../limit-user/models/events';
+import { ValidatedEventData } from '../types/events';
+import { UnknownEventTypeError } from '../types/errors';
+
+export class LimitUserEventProcessor implements EventProcessor {
+  private readonly supportedEventTypes: EventType[] = [
+    EventType.LIMIT_USER_CREATED,
+    EventType.LIMIT_USER_PENDING_PAYMENT_CREATED,
+    EventType.LIMIT_USER_PENDING_PAYMENT_PROCESSED,
+  ] satisfies LimitUserEventType[];
+
+  constructor(private limitUserService: LimitUserService) {}
+
+  canHandle(eventType: string): boolean {
+    return this.supportedEventTypes.includes(eventType as EventType);
+  }
+
+  async processEvent(event: ValidatedEventData): Promise<void> {
+    if (!this.isLimitUserEvent(event)) {
+      throw new UnknownEventTypeError(event.eventType);
+    }
+
+    await this.limitUserService.processEvent(event);
+  }
+
+  private isLimitUserEvent(event: ValidatedEventData): event is LimitUserEvent {
+    return this.canHandle(event.eventType);
+  }
+}
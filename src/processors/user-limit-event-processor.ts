@@ -1,14 +1,18 @@
 import { EventProcessor } from './event-processor';
 import { UserLimitService } from '../user-limit/services/user-limit-service';
-import { EventType } from '../user-limit/models/events';
+import { EventType, UserLimitEvent, UserLimitEventType } from '../user-limit/models/events';
 import { ValidatedEventData } from '../types/events';
+import { UnknownEventTypeError } from '../types/errors';
 
 export class UserLimitEventProcessor implements EventProcessor {
-  private readonly supportedEventTypes = [
+  private readonly supportedEventTypes: EventType[] = [
     EventType.USER_LIMIT_CREATED,
     EventType.USER_LIMIT_PROGRESS_CHANGED,
     EventType.USER_LIMIT_RESET,
-  ];
+    EventType.USER_LIMIT_CHANGE_SOURCE_ADDED,
+    EventType.USER_LIMIT_CHANGED,
+    EventType.USER_LIMIT_CANCELED,
+  ] satisfies UserLimitEventType[];
 
   constructor(private userLimitService: UserLimitService) {}
 
@@ -17,6 +21,14 @@ export class UserLimitEventProcessor implements EventProcessor {
   }
 
   async processEvent(event: ValidatedEventData): Promise<void> {
+    if (!this.isUserLimitEvent(event)) {
+      throw new UnknownEventTypeError(event.eventType);
+    }
+
     await this.userLimitService.processEvent(event);
   }
+
+  private isUserLimitEvent(event: ValidatedEventData): event is UserLimitEvent {
+    return this.canHandle(event.eventType);
+  }
 }
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  IQuarantineStore,
+  InMemoryQuarantineStore,
+  createQuarantineEntry,
+} from '../quarantine-store';
+import { FileQuarantineStore } from '../file-quarantine-store';
+import { resubmitQuarantined } from '../resubmit-quarantined';
+import { KinesisHandler } from '../../handlers/kinesis-handler';
+import { EventType } from '../../user-limit/models/events';
+import { DuplicateEventError, StaleEventError } from '../../types/errors';
+import {
+  createMockEventProcessors,
+  createMockKinesisRecord,
+} from '../../handlers/__tests__/test-helpers';
+
+function createEntry(index: number): ReturnType<typeof createQuarantineEntry> {
+  return createQuarantineEntry(
+    createMockKinesisRecord(index),
+    'validation-failed',
+    ['brandId is a required field'],
+    { eventId: `event-${index}` },
+    () => 1000
+  );
+}
+
+function describeStore(name: string, setup: () => IQuarantineStore): void {
+  describe(name, () => {
+    let store: IQuarantineStore;
+
+    beforeEach(() => {
+      store = setup();
+    });
+
+    it('should list nothing when empty', async () => {
+      await store.remove([]);
+
+      expect(await store.list()).toEqual([]);
+    });
+
+    it('should list stored entries in the order they were quarantined', async () => {
+      const first = createEntry(0);
+      await store.put(first);
+      await store.put(createEntry(1));
+
+      const entries = await store.list();
+      expect(entries.map((e) => e.coordinates.sequenceNumber)).toEqual(['0', '1']);
+      expect(entries[0]).toEqual(JSON.parse(JSON.stringify(first)));
+    });
+
+    it('should remove entries by id', async () => {
+      const first = createEntry(0);
+      const second = createEntry(1);
+      await store.put(first);
+      await store.put(second);
+
+      await store.remove([first.id]);
+
+      expect((await store.list()).map((e) => e.id)).toEqual([second.id]);
+    });
+  });
+}
+
+describe('QuarantineStore', () => {
+  describeStore('InMemoryQuarantineStore', () => new InMemoryQuarantineStore());
+
+  describe('with a temporary directory', () => {
+    let directory: string;
+    let fileIndex = 0;
+
+    beforeAll(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'quarantine-'));
+    });
+
+    afterAll(() => rm(directory, { recursive: true, force: true }));
+
+    describeStore(
+      'FileQuarantineStore',
+      () => new FileQuarantineStore(join(directory, `nested-${fileIndex++}`, 'events.ndjson'))
+    );
+  });
+
+  it('should capture the reason, errors and record coordinates', () => {
+    const record = createMockKinesisRecord(7);
+
+    const entry = createQuarantineEntry(record, 'malformed-json', ['Unexpected token'], undefined);
+
+    expect(entry).toMatchObject({
+      reason: 'malformed-json',
+      errors: ['Unexpected token'],
+      record,
+      coordinates: {
+        eventSourceARN: record.eventSourceARN,
+        shardId: 'shardId-000000000000',
+        sequenceNumber: '7',
+        partitionKey: 'user-7',
+      },
+    });
+    expect(entry.payload).toBeUndefined();
+  });
+});
+
+describe('resubmitQuarantined', () => {
+  let store: InMemoryQuarantineStore;
+  let mockProcessors: ReturnType<typeof createMockEventProcessors>;
+  let handler: KinesisHandler;
+
+  beforeEach(() => {
+    store = new InMemoryQuarantineStore();
+    mockProcessors = createMockEventProcessors();
+    handler = new KinesisHandler(mockProcessors.processors, { quarantineStore: store });
+  });
+
+  it('should apply quarantined records and remove them from the store', async () => {
+    await store.put(createEntry(0));
+    await store.put(createEntry(1));
+
+    const summary = await resubmitQuarantined(store, (records) =>
+      handler.processBatchWithResults(records)
+    );
+
+    expect(summary).toEqual({ total: 2, acknowledged: 2, skipped: 0, failed: 0 });
+    expect(mockProcessors.userLimitService.processEvent).toHaveBeenCalledTimes(2);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should keep records that fail processing', async () => {
+    mockProcessors.userLimitService.processEvent.mockRejectedValueOnce(new Error('Failed'));
+    const failing = createEntry(0);
+    await store.put(failing);
+    await store.put(createEntry(1));
+
+    const summary = await resubmitQuarantined(store, (records) =>
+      handler.processBatchWithResults(records)
+    );
+
+    expect(summary).toEqual({ total: 2, acknowledged: 1, skipped: 0, failed: 1 });
+    expect((await store.list()).map((e) => e.id)).toEqual([failing.id]);
+  });
+
+  it('should keep records that are rejected as stale', async () => {
+    mockProcessors.userLimitService.processEvent.mockRejectedValueOnce(
+      new StaleEventError('limit-0', 'event-0')
+    );
+    const stale = createQuarantineEntry(
+      createMockKinesisRecord(0, { eventType: EventType.USER_LIMIT_PROGRESS_CHANGED }),
+      'validation-failed',
+      ['amount is invalid']
+    );
+    await store.put(stale);
+
+    const summary = await resubmitQuarantined(store, (records) =>
+      handler.processBatchWithResults(records)
+    );
+
+    expect(summary).toEqual({ total: 1, acknowledged: 0, skipped: 0, failed: 1 });
+    expect(await store.list()).toEqual([stale]);
+  });
+
+  it('should keep and flag records that are skipped without being applied', async () => {
+    mockProcessors.userLimitService.processEvent.mockRejectedValueOnce(
+      new DuplicateEventError('limit-0', 'event-0')
+    );
+    const record = createMockKinesisRecord(0, {
+      eventType: EventType.USER_LIMIT_PROGRESS_CHANGED,
+    });
+    const stale = createQuarantineEntry(record, 'validation-failed', ['amount is invalid']);
+    await store.put(stale);
+
+    const summary = await resubmitQuarantined(
+      store,
+      (records) => handler.processBatchWithResults(records),
+      () => 2000
+    );
+
+    expect(summary).toEqual({ total: 1, acknowledged: 0, skipped: 1, failed: 0 });
+    const entries = await store.list();
+    expect(entries).toEqual([
+      {
+        ...stale,
+        id: expect.not.stringMatching(stale.id),
+        resubmission: { errorCode: 'DUPLICATE_EVENT', resubmittedAt: 2000 },
+      },
+    ]);
+  });
+
+  it('should replace records that are still invalid with a new entry', async () => {
+    const record = createMockKinesisRecord(0);
+    record.kinesis.data = Buffer.from('{"eventType":"NOT_A_TYPE"}').toString('base64');
+    const entry = createQuarantineEntry(record, 'unknown-event-type', ['Unknown event type']);
+    await store.put(entry);
+
+    await resubmitQuarantined(store, (records) => handler.processBatchWithResults(records));
+
+    const entries = await store.list();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].id).not.toBe(entry.id);
+    expect(entries[0].reason).toBe('unknown-event-type');
+  });
+});
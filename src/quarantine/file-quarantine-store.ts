@@ -0,0 +1,47 @@
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { IQuarantineStore, QuarantineEntry } from './quarantine-store';
+
+/**
+ * Stores every entry as one JSON line (NDJSON) in a local file
+ */
+export class FileQuarantineStore implements IQuarantineStore {
+  constructor(private readonly filePath: string) {}
+
+  async put(entry: QuarantineEntry): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+  }
+
+  async list(): Promise<QuarantineEntry[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => JSON.parse(line) as QuarantineEntry);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const removed = new Set(ids);
+    const remaining = (await this.list()).filter((entry) => !removed.has(entry.id));
+
+    await writeFile(
+      this.filePath,
+      remaining.map((entry) => `${JSON.stringify(entry)}\n`).join(''),
+      'utf-8'
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { IQuarantineStore, InMemoryQuarantineStore } from './quarantine-store';
+import { FileQuarantineStore } from './file-quarantine-store';
+import { createChildLogger } from '../utils/logger';
+
+const logger = createChildLogger({ service: 'quarantine-store-factory' });
+
+export type QuarantineStoreType = 'none' | 'inmemory' | 'file';
+
+export const DEFAULT_QUARANTINE_FILE_PATH = 'quarantine/events.ndjson';
+
+/**
+ * Factory function to create a QuarantineStore based on environment configuration
+ *
+ * Environment Variables:
+ * - QUARANTINE_STORE_TYPE: 'none' | 'inmemory' | 'file' (default: 'none')
+ * - QUARANTINE_FILE_PATH: NDJSON file for the file store (default: 'quarantine/events.ndjson')
+ */
+export function createQuarantineStore(): IQuarantineStore | undefined {
+  const storeType = (
+    process.env.QUARANTINE_STORE_TYPE || 'none'
+  ).toLowerCase() as QuarantineStoreType;
+
+  switch (storeType) {
+    case 'none':
+      return undefined;
+    case 'inmemory':
+      return new InMemoryQuarantineStore();
+    case 'file':
+      return new FileQuarantineStore(
+        process.env.QUARANTINE_FILE_PATH || DEFAULT_QUARANTINE_FILE_PATH
+      );
+    default:
+      logger.warn({ storeType }, 'Unknown quarantine store type, quarantine disabled');
+      return undefined;
+  }
+}
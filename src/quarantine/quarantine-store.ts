@@ -0,0 +1,112 @@
+import { randomUUID } from 'crypto';
+import { ValidationFailureReason } from '../user-limit/validation/event-schemas';
+import { KinesisUserRecord } from '../handlers/user-record';
+
+/**
+ * Why an event was rejected before reaching a processor:
+ * - malformed-json: the record data is not valid JSON
+ * - malformed-aggregate: a KPL aggregated record failed its checksum or could not be unpacked
+ * - malformed-encoding: the record data could not be decompressed or decoded
+ * - unknown-event-type: no schema or no processor exists for the eventType
+ * - unsupported-schema-version: no schema is registered for the event's schemaVersion
+ * - validation-failed: the event does not match the schema of its type
+ */
+export type QuarantineReason =
+  'malformed-json' | 'malformed-aggregate' | 'malformed-encoding' | ValidationFailureReason;
+
+/**
+ * Where the rejected record sits in the stream
+ */
+export interface RecordCoordinates {
+  eventSourceARN: string;
+  shardId: string;
+  sequenceNumber: string;
+  partitionKey: string;
+  approximateArrivalTimestamp: number;
+  /** Position inside a KPL aggregated record */
+  subSequenceNumber?: number;
+  /** Position inside a batch of events decoded from one record */
+  eventIndex?: number;
+}
+
+export interface QuarantineEntry {
+  id: string;
+  reason: QuarantineReason;
+  errors: string[];
+  coordinates: RecordCoordinates;
+  /**
+   * The Kinesis record as received, so it can be re-submitted unchanged. For a KPL
+   * aggregated record this is the unpacked sub-record.
+   */
+  record: KinesisUserRecord;
+  /** Decoded JSON payload, absent for malformed JSON */
+  payload?: unknown;
+  quarantinedAt: number;
+  /**
+   * Set when a resubmission was acknowledged without being applied, e.g. as a stale
+   * event. The entry is kept for a manual decision, as its effect would otherwise be lost.
+   */
+  resubmission?: ResubmissionFlag;
+}
+
+export interface ResubmissionFlag {
+  errorCode?: string;
+  resubmittedAt: number;
+}
+
+/**
+ * Keeps events that were rejected by validation so they can be inspected and
+ * re-submitted once the schema or the producer is fixed
+ */
+export interface IQuarantineStore {
+  put(entry: QuarantineEntry): Promise<void>;
+  list(): Promise<QuarantineEntry[]>;
+  remove(ids: string[]): Promise<void>;
+}
+
+export class InMemoryQuarantineStore implements IQuarantineStore {
+  private entries: Map<string, QuarantineEntry> = new Map();
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async put(entry: QuarantineEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async list(): Promise<QuarantineEntry[]> {
+    return [...this.entries.values()];
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async remove(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.entries.delete(id);
+    }
+  }
+}
+
+export function createQuarantineEntry(
+  record: KinesisUserRecord,
+  reason: QuarantineReason,
+  errors: string[],
+  payload?: unknown,
+  now: () => number = Date.now
+): QuarantineEntry {
+  return {
+    id: randomUUID(),
+    reason,
+    errors,
+    coordinates: {
+      eventSourceARN: record.eventSourceARN,
+      shardId: record.eventID.split(':')[0],
+      sequenceNumber: record.kinesis.sequenceNumber,
+      partitionKey: record.kinesis.partitionKey,
+      approximateArrivalTimestamp: record.kinesis.approximateArrivalTimestamp,
+      subSequenceNumber: record.kinesis.subSequenceNumber,
+      eventIndex: record.kinesis.eventIndex,
+    },
+    record,
+    payload,
+    quarantinedAt: now(),
+  };
+}
@@ -0,0 +1,104 @@
+import { KinesisStreamRecord } from 'aws-lambda';
+import { randomUUID } from 'crypto';
+import { kinesisHandler } from '../index';
+import { BatchResult } from '../handlers/kinesis-handler';
+import { IQuarantineStore, QuarantineEntry } from './quarantine-store';
+import { createQuarantineStore } from './quarantine-store-factory';
+import { createChildLogger } from '../utils/logger';
+
+const logger = createChildLogger({ service: 'resubmit-quarantined' });
+
+export interface ResubmitSummary {
+  total: number;
+  /** Applied, or rejected again and quarantined as a new entry */
+  acknowledged: number;
+  /**
+   * Acknowledged by the handler without being applied, e.g. as a duplicate of an event
+   * the limit already holds; kept in the store as a new, flagged entry
+   */
+  skipped: number;
+  /** Failed processing and left in the quarantine store */
+  failed: number;
+}
+
+/**
+ * Runs every quarantined record through the handler again, e.g. after a schema or
+ * producer fix. Records are submitted one at a time in quarantine order, so each
+ * outcome is known exactly. Acknowledged entries are removed from the store; records
+ * that are still invalid come back as new entries through the handler itself.
+ *
+ * A resubmitted event is usually older than what its limit has applied since. The
+ * service rejects it as stale, so it is retried (and kept here) or parked in the
+ * dead-letter sink like any other failure. Records the handler acknowledges without
+ * applying them are not removed either: they are kept with a `resubmission` flag for an
+ * operator to decide on.
+ */
+export async function resubmitQuarantined(
+  store: IQuarantineStore,
+  processBatch: (records: KinesisStreamRecord[]) => Promise<BatchResult>,
+  now: () => number = Date.now
+): Promise<ResubmitSummary> {
+  const entries = await store.list();
+  const acknowledged: string[] = [];
+  const flagged: QuarantineEntry[] = [];
+  const replaced: string[] = [];
+  let failed = 0;
+
+  try {
+    for (const entry of entries) {
+      const { response, results } = await processBatch([entry.record]);
+      const skippedResult = results.find((result) => result.acknowledgedAs === 'skip');
+      const context = { id: entry.id, sequenceNumber: entry.coordinates.sequenceNumber };
+
+      if (response.batchItemFailures.length > 0) {
+        logger.warn(context, 'Quarantined record failed again, keeping it');
+        failed++;
+      } else if (skippedResult) {
+        logger.warn(
+          { ...context, errorCode: skippedResult.errorCode },
+          'Quarantined record was skipped without being applied, keeping it flagged'
+        );
+        flagged.push({
+          ...entry,
+          id: randomUUID(),
+          resubmission: { errorCode: skippedResult.errorCode, resubmittedAt: now() },
+        });
+        replaced.push(entry.id);
+      } else {
+        acknowledged.push(entry.id);
+      }
+    }
+  } finally {
+    // Flagged copies are stored before the originals are removed, so none can be lost
+    for (const entry of flagged) {
+      await store.put(entry);
+    }
+    await store.remove([...acknowledged, ...replaced]);
+  }
+
+  const summary = {
+    total: entries.length,
+    acknowledged: acknowledged.length,
+    skipped: flagged.length,
+    failed,
+  };
+  logger.info(summary, 'Quarantined records resubmitted');
+
+  return summary;
+}
+
+if (require.main === module) {
+  const store = createQuarantineStore();
+
+  if (!store) {
+    logger.error({}, 'QUARANTINE_STORE_TYPE must be set to resubmit quarantined records');
+    process.exit(1);
+  }
+
+  resubmitQuarantined(store, (records) => kinesisHandler.processBatchWithResults(records)).catch(
+    (error) => {
+      logger.error({ err: error }, 'Fatal error resubmitting quarantined records');
+      process.exit(1);
+    }
+  );
+}
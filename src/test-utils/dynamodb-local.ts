@@ -0,0 +1,62 @@
+import { AddressInfo, Server } from 'net';
+import {
+  CreateTableCommand,
+  CreateTableCommandInput,
+  DeleteTableCommand,
+  DynamoDBClient,
+} from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+
+// dynalite ships without type declarations
+// eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-require-imports
+const dynalite = require('dynalite') as (options: {
+  createTableMs: number;
+  deleteTableMs: number;
+}) => Server;
+
+/**
+ * In-process DynamoDB stand-in (dynalite) so repository tests run without AWS or Docker
+ */
+export interface DynamoDBLocal {
+  endpoint: string;
+  client: DynamoDBClient;
+  documentClient: DynamoDBDocumentClient;
+  createTable(input: CreateTableCommandInput): Promise<void>;
+  deleteTable(tableName: string): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export async function startDynamoDBLocal(): Promise<DynamoDBLocal> {
+  const server = dynalite({ createTableMs: 0, deleteTableMs: 0 });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const { port } = server.address() as AddressInfo;
+  const endpoint = `http://127.0.0.1:${port}`;
+
+  const client = new DynamoDBClient({
+    endpoint,
+    region: 'us-east-1',
+    credentials: { accessKeyId: 'local', secretAccessKey: 'local' },
+  });
+  const documentClient = DynamoDBDocumentClient.from(client, {
+    marshallOptions: { removeUndefinedValues: true },
+  });
+
+  return {
+    endpoint,
+    client,
+    documentClient,
+    createTable: async (input) => {
+      await client.send(new CreateTableCommand({ BillingMode: 'PAY_PER_REQUEST', ...input }));
+    },
+    deleteTable: async (tableName) => {
+      await client.send(new DeleteTableCommand({ TableName: tableName }));
+    },
+    stop: async () => {
+      client.destroy();
+      await new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve()))
+      );
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { createHash, randomUUID } from 'crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { SQSClient } from '@aws-sdk/client-sqs';
+
+interface SendMessageRequest {
+  QueueUrl: string;
+  MessageBody: string;
+}
+
+/**
+ * Minimal in-process SQS stand-in speaking the AWS JSON protocol, so sinks using the real
+ * SQS client can be tested without AWS or Docker. Only SendMessage is supported.
+ */
+export interface SQSLocal {
+  endpoint: string;
+  client: SQSClient;
+  queueUrl(queueName: string): string;
+  /** Message bodies received by a queue, in arrival order */
+  messages(queueName: string): string[];
+  stop(): Promise<void>;
+}
+
+export async function startSQSLocal(): Promise<SQSLocal> {
+  const messagesByQueue = new Map<string, string[]>();
+
+  const server = createServer((request, response) => {
+    void handleRequest(request, response, messagesByQueue);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const { port } = server.address() as AddressInfo;
+  const endpoint = `http://127.0.0.1:${port}`;
+
+  const client = new SQSClient({
+    endpoint,
+    region: 'us-east-1',
+    credentials: { accessKeyId: 'local', secretAccessKey: 'local' },
+  });
+
+  return {
+    endpoint,
+    client,
+    queueUrl: (queueName) => `${endpoint}/000000000000/${queueName}`,
+    messages: (queueName) => messagesByQueue.get(queueName) ?? [],
+    stop: async () => {
+      client.destroy();
+      await new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve()))
+      );
+    },
+  };
+}
+
+async function handleRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  messagesByQueue: Map<string, string[]>
+): Promise<void> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const target = request.headers['x-amz-target'];
+  if (target !== 'AmazonSQS.SendMessage') {
+    respond(response, 400, {
+      __type: 'com.amazonaws.sqs#InvalidAction',
+      message: `Unsupported action ${String(target)}`,
+    });
+    return;
+  }
+
+  const { QueueUrl, MessageBody } = JSON.parse(
+    Buffer.concat(chunks).toString('utf-8')
+  ) as SendMessageRequest;
+  const queueName = QueueUrl.split('/').pop()!;
+  const messages = messagesByQueue.get(queueName) ?? [];
+  messages.push(MessageBody);
+  messagesByQueue.set(queueName, messages);
+
+  respond(response, 200, {
+    MessageId: randomUUID(),
+    MD5OfMessageBody: createHash('md5').update(MessageBody).digest('hex'),
+  });
+}
+
+function respond(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/x-amz-json-1.0' });
+  response.end(JSON.stringify(body));
+}
@@ -0,0 +1,44 @@
+import {
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  SpanExporter,
+} from '@opentelemetry/sdk-trace-base';
+import { registerTracing } from './tracing';
+import { createChildLogger } from '../utils/logger';
+
+const logger = createChildLogger({ service: 'tracing-factory' });
+
+export type TracingExporterType = 'none' | 'inmemory' | 'console';
+
+/**
+ * Factory function to register a tracer provider based on environment configuration.
+ * With 'none' no provider is registered here: spans go to a provider registered by
+ * other means (e.g. the ADOT Lambda layer) and are dropped otherwise.
+ *
+ * Environment Variables:
+ * - TRACING_EXPORTER: 'none' | 'inmemory' | 'console' (default: 'none')
+ */
+export function createTracing(): SpanExporter | undefined {
+  const exporterType = (
+    process.env.TRACING_EXPORTER || 'none'
+  ).toLowerCase() as TracingExporterType;
+
+  let exporter: SpanExporter;
+  switch (exporterType) {
+    case 'none':
+      return undefined;
+    case 'inmemory':
+      exporter = new InMemorySpanExporter();
+      break;
+    case 'console':
+      exporter = new ConsoleSpanExporter();
+      break;
+    default:
+      logger.warn({ exporterType }, 'Unknown tracing exporter, tracing disabled');
+      return undefined;
+  }
+
+  registerTracing(new SimpleSpanProcessor(exporter));
+  return exporter;
+}
@@ -0,0 +1,100 @@
+import {
+  AttributeValue,
+  Attributes,
+  Link,
+  ROOT_CONTEXT,
+  SpanStatusCode,
+  context,
+  defaultTextMapGetter,
+  trace,
+} from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { BasicTracerProvider, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+
+export const TRACER_NAME = 'kinesis-handler';
+
+/** Span attribute names, matching the fields used in log lines */
+export enum SpanAttribute {
+  EVENT_TYPE = 'eventType',
+  USER_LIMIT_ID = 'userLimitId',
+  USER_ID = 'userId',
+  SEQUENCE_NUMBER = 'sequenceNumber',
+  RECORD_COUNT = 'recordCount',
+  PROCESSOR = 'processor',
+}
+
+export type SpanAttributes = Partial<Record<SpanAttribute, AttributeValue | undefined>>;
+
+const propagator = new W3CTraceContextPropagator();
+
+/**
+ * Runs `fn` inside a new active span, so spans started while it runs - including in
+ * async work - become its children. A rejection marks the span as failed and records
+ * the error on it. Attributes without a value are left out.
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: SpanAttributes,
+  fn: () => Promise<T>,
+  links: Link[] = []
+): Promise<T> {
+  const definedAttributes: Attributes = Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined)
+  );
+
+  return trace
+    .getTracer(TRACER_NAME)
+    .startActiveSpan(name, { attributes: definedAttributes, links }, async (span) => {
+      try {
+        return await fn();
+      } catch (error) {
+        span.recordException(error as Error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+}
+
+/**
+ * Links to the producer's trace when a (normalized) event carries a W3C `traceparent`.
+ * A batch mixes events from many upstream traces, so they are linked rather than used
+ * as the parent.
+ */
+export function upstreamLinks(data: unknown): Link[] {
+  if (typeof data !== 'object' || data === null) {
+    return [];
+  }
+
+  const { traceparent, tracestate } = data as Record<string, unknown>;
+  if (typeof traceparent !== 'string') {
+    return [];
+  }
+
+  const upstream = trace.getSpanContext(
+    propagator.extract(ROOT_CONTEXT, { traceparent, tracestate }, defaultTextMapGetter)
+  );
+
+  return upstream ? [{ context: upstream }] : [];
+}
+
+/**
+ * Registers a global tracer provider exporting through `spanProcessor`, together with
+ * the AsyncLocalStorage context manager that keeps the active span across awaits
+ */
+export function registerTracing(spanProcessor: SpanProcessor): BasicTracerProvider {
+  const provider = new BasicTracerProvider({ spanProcessors: [spanProcessor] });
+  trace.setGlobalTracerProvider(provider);
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  return provider;
+}
+
+/**
+ * Removes the provider and context manager set by registerTracing, so another can be registered
+ */
+export function unregisterTracing(): void {
+  trace.disable();
+  context.disable();
+}
@@ -1,5 +1,20 @@
+/**
+ * How an error affects the record it was raised for:
+ * - retryable: transient, e.g. a concurrent write or a limit that is not created yet;
+ *   the same record may succeed when retried
+ * - permanent: deterministic, e.g. a business rule; every retry fails the same way
+ * - skip: there is nothing to apply, e.g. a stale event
+ */
+export type ErrorClassification = 'retryable' | 'permanent' | 'skip';
+
+/** Code logged for errors that are not one of the classes in this module, e.g. from the AWS SDK */
+export const UNEXPECTED_ERROR_CODE = 'UNEXPECTED_ERROR';
+
 // Base error classes
 export class RepositoryError extends Error {
+  readonly code: string = 'REPOSITORY_ERROR';
+  readonly classification: ErrorClassification = 'retryable';
+
   constructor(message: string) {
     super(message);
     this.name = 'RepositoryError';
@@ -7,6 +22,9 @@ export class RepositoryError extends Error {
 }
 
 export class ServiceError extends Error {
+  readonly code: string = 'SERVICE_ERROR';
+  readonly classification: ErrorClassification = 'permanent';
+
   constructor(message: string) {
     super(message);
     this.name = 'ServiceError';
@@ -14,6 +32,9 @@ export class ServiceError extends Error {
 }
 
 export class HandlerError extends Error {
+  readonly code: string = 'HANDLER_ERROR';
+  readonly classification: ErrorClassification = 'retryable';
+
   constructor(message: string) {
     super(message);
     this.name = 'HandlerError';
@@ -22,6 +43,8 @@ export class HandlerError extends Error {
 
 // Repository-level errors
 export class UserLimitNotFoundError extends RepositoryError {
+  readonly code = 'USER_LIMIT_NOT_FOUND';
+
   constructor(limitId: string) {
     super(`UserLimit with id ${limitId} not found`);
     this.name = 'UserLimitNotFoundError';
@@ -29,20 +52,79 @@ export class UserLimitNotFoundError extends RepositoryError {
 }
 
 export class UserLimitAlreadyExistsError extends RepositoryError {
+  readonly code = 'USER_LIMIT_ALREADY_EXISTS';
+  readonly classification: ErrorClassification = 'permanent';
+
   constructor(limitId: string) {
     super(`UserLimit with id ${limitId} already exists`);
     this.name = 'UserLimitAlreadyExistsError';
   }
 }
 
+export class UserLimitVersionConflictError extends RepositoryError {
+  readonly code = 'USER_LIMIT_VERSION_CONFLICT';
+
+  constructor(limitId: string, expectedVersion: number, actualVersion?: number) {
+    super(
+      `UserLimit with id ${limitId} was modified concurrently ` +
+        `(expected version ${expectedVersion}, found ${actualVersion ?? 'none'})`
+    );
+    this.name = 'UserLimitVersionConflictError';
+  }
+}
+
 export class InvalidUserLimitError extends RepositoryError {
+  readonly code = 'INVALID_USER_LIMIT';
+  readonly classification: ErrorClassification = 'permanent';
+
   constructor(message: string) {
     super(message);
     this.name = 'InvalidUserLimitError';
   }
 }
 
+export class LimitUserNotFoundError extends RepositoryError {
+  readonly code = 'LIMIT_USER_NOT_FOUND';
+
+  constructor(userId: string) {
+    super(`LimitUser with id ${userId} not found`);
+    this.name = 'LimitUserNotFoundError';
+  }
+}
+
+export class LimitUserAlreadyExistsError extends RepositoryError {
+  readonly code = 'LIMIT_USER_ALREADY_EXISTS';
+  readonly classification: ErrorClassification = 'permanent';
+
+  constructor(userId: string) {
+    super(`LimitUser with id ${userId} already exists`);
+    this.name = 'LimitUserAlreadyExistsError';
+  }
+}
+
+export class InvalidLimitUserError extends RepositoryError {
+  readonly code = 'INVALID_LIMIT_USER';
+  readonly classification: ErrorClassification = 'permanent';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidLimitUserError';
+  }
+}
+
+export class CircuitOpenError extends RepositoryError {
+  readonly code = 'CIRCUIT_OPEN';
+
+  constructor(circuit: string) {
+    super(`Circuit ${circuit} is open, failing fast`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
 export class NotImplementedError extends RepositoryError {
+  readonly code = 'NOT_IMPLEMENTED';
+  readonly classification: ErrorClassification = 'permanent';
+
   constructor(message: string) {
     super(message);
     this.name = 'NotImplementedError';
@@ -51,6 +133,8 @@ export class NotImplementedError extends RepositoryError {
 
 // Service-level errors
 export class UnknownEventTypeError extends ServiceError {
+  readonly code = 'UNKNOWN_EVENT_TYPE';
+
   constructor(eventType: string) {
     super(`Unknown event type: ${eventType}`);
     this.name = 'UnknownEventTypeError';
@@ -58,6 +142,8 @@ export class UnknownEventTypeError extends ServiceError {
 }
 
 export class MissingEventFieldError extends ServiceError {
+  readonly code = 'MISSING_EVENT_FIELD';
+
   constructor(eventType: string, fields: string[]) {
     super(`Missing required fields for ${eventType} event: ${fields.join(', ')}`);
     this.name = 'MissingEventFieldError';
@@ -65,21 +151,97 @@ export class MissingEventFieldError extends ServiceError {
 }
 
 export class UserLimitExceededError extends ServiceError {
-  constructor(userLimitId: string, progress: number, limit: number) {
+  readonly code = 'USER_LIMIT_EXCEEDED';
+
+  constructor(userLimitId: string, progress: string, limit: string) {
     super(`Progress ${progress} exceeds limit ${limit} for userLimitId ${userLimitId}`);
     this.name = 'UserLimitExceededError';
   }
 }
 
+export class NoMatchingUserLimitError extends ServiceError {
+  readonly code = 'NO_MATCHING_USER_LIMIT';
+  readonly classification: ErrorClassification = 'retryable';
+
+  constructor(userId: string, type: string, period: string) {
+    super(`No active ${type}/${period} limit found for user ${userId}`);
+    this.name = 'NoMatchingUserLimitError';
+  }
+}
+
+export class InvalidAmountError extends ServiceError {
+  readonly code = 'INVALID_AMOUNT';
+
+  constructor(amount: string, reason: string) {
+    super(`Invalid amount "${amount}": ${reason}`);
+    this.name = 'InvalidAmountError';
+  }
+}
+
+export class InvalidStatusTransitionError extends ServiceError {
+  readonly code = 'INVALID_STATUS_TRANSITION';
+
+  constructor(userLimitId: string, from: string, to: string) {
+    super(`UserLimit ${userLimitId} cannot change status from ${from} to ${to}`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+export class UserLimitNotActiveError extends ServiceError {
+  readonly code = 'USER_LIMIT_NOT_ACTIVE';
+
+  constructor(userLimitId: string, status: string) {
+    super(`UserLimit ${userLimitId} is ${status} and does not accept progress`);
+    this.name = 'UserLimitNotActiveError';
+  }
+}
+
+export class CurrencyMismatchError extends ServiceError {
+  readonly code = 'CURRENCY_MISMATCH';
+
+  constructor(userId: string, expected: string, actual: string) {
+    super(`Payment in ${actual} cannot be added up in currency ${expected} of user ${userId}`);
+    this.name = 'CurrencyMismatchError';
+  }
+}
+
+/**
+ * An event older than the last one applied to the limit that was not applied itself.
+ * Acknowledging it would drop it for good, e.g. a progress delta, so it is permanent and
+ * parked in the dead-letter sink by default.
+ */
+export class StaleEventError extends ServiceError {
+  readonly code = 'STALE_EVENT';
+
+  constructor(userLimitId: string, eventId?: string) {
+    super(`Event ${eventId ?? '(unknown)'} is older than the last event applied to ${userLimitId}`);
+    this.name = 'StaleEventError';
+  }
+}
+
 // Handler-level errors
 export class SkippedRecordError extends HandlerError {
+  readonly code: string = 'RECORD_SKIPPED';
+  readonly classification: ErrorClassification = 'skip';
+
   constructor(reason: string) {
     super(reason);
     this.name = 'SkippedRecordError';
   }
 }
 
+export class DuplicateEventError extends SkippedRecordError {
+  readonly code = 'DUPLICATE_EVENT';
+
+  constructor(aggregateId: string, eventId?: string) {
+    super(`Event ${eventId ?? '(unknown)'} was already applied to ${aggregateId}`);
+    this.name = 'DuplicateEventError';
+  }
+}
+
 export class ProcessingError extends HandlerError {
+  readonly code = 'PROCESSING_FAILED';
+
   constructor(
     message: string,
     public readonly originalError?: unknown
@@ -88,3 +250,69 @@ export class ProcessingError extends HandlerError {
     this.name = 'ProcessingError';
   }
 }
+
+// Record decoding errors, one per decoding step
+export class DecodingError extends HandlerError {
+  readonly code: string = 'DECODING_FAILED';
+  readonly classification: ErrorClassification = 'permanent';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecodingError';
+  }
+}
+
+export class AggregatedRecordError extends DecodingError {
+  readonly code = 'MALFORMED_AGGREGATE';
+
+  constructor(reason: string) {
+    super(`Invalid KPL aggregated record: ${reason}`);
+    this.name = 'AggregatedRecordError';
+  }
+}
+
+export class DecompressionError extends DecodingError {
+  readonly code = 'DECOMPRESSION_FAILED';
+
+  constructor(encoding: string, reason: string) {
+    super(`Invalid ${encoding} payload: ${reason}`);
+    this.name = 'DecompressionError';
+  }
+}
+
+export class UnsupportedEncodingError extends DecodingError {
+  readonly code = 'UNSUPPORTED_ENCODING';
+
+  constructor(encoding: string) {
+    super(`Unsupported content encoding: ${encoding}`);
+    this.name = 'UnsupportedEncodingError';
+  }
+}
+
+export class MalformedJsonError extends DecodingError {
+  readonly code = 'MALFORMED_JSON';
+
+  constructor(reason: string) {
+    super(`Invalid JSON: ${reason}`);
+    this.name = 'MalformedJsonError';
+  }
+}
+
+/**
+ * Every error class in this module carries a stable `code` for logs and dashboards and a
+ * classification. Errors from elsewhere count as retryable, as they were before.
+ */
+export function classifyError(error: unknown): {
+  code: string;
+  classification: ErrorClassification;
+} {
+  if (
+    error instanceof RepositoryError ||
+    error instanceof ServiceError ||
+    error instanceof HandlerError
+  ) {
+    return { code: error.code, classification: error.classification };
+  }
+
+  return { code: UNEXPECTED_ERROR_CODE, classification: 'retryable' };
+}
@@ -1,21 +1,7 @@
-import { EventType } from '../user-limit/models/events';
+import { UserLimitEvent } from '../user-limit/models/events';
+import { LimitUserEvent } from '../limit-user/models/events';
 
-// Validated event data structure (from yup validation + actual event.json)
-export interface ValidatedEventData {
-  eventType: EventType;
-  userId: string;
-  userLimitId?: string;
-  brandId?: string;
-  type?: string;
-  period?: string;
-  value?: string;
-  currencyCode?: string;
-  status?: string;
-  activeFrom?: number;
-  nextResetTime?: number;
-  activeUntil?: number;
-  amount?: string;
-  previousProgress?: string;
-  resetReason?: string;
-  [key: string]: unknown;
-}
+/**
+ * Any event that passed validation, discriminated by `eventType`
+ */
+export type ValidatedEventData = UserLimitEvent | LimitUserEvent;
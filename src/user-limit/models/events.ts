@@ -1,35 +1,42 @@
-import { LimitType } from './user-limit';
+import type * as yup from 'yup';
+import type {
+  userLimitCanceledSchema,
+  userLimitChangeSourceAddedSchema,
+  userLimitChangedSchema,
+  userLimitCreatedSchema,
+  userLimitProgressChangedSchema,
+  userLimitResetSchema,
+} from '../validation/event-schemas';
 
 export enum EventType {
   USER_LIMIT_CREATED = 'USER_LIMIT_CREATED',
   USER_LIMIT_PROGRESS_CHANGED = 'USER_LIMIT_PROGRESS_CHANGED',
   USER_LIMIT_RESET = 'USER_LIMIT_RESET',
+  USER_LIMIT_CHANGE_SOURCE_ADDED = 'USER_LIMIT_CHANGE_SOURCE_ADDED',
+  USER_LIMIT_CHANGED = 'USER_LIMIT_CHANGED',
+  USER_LIMIT_CANCELED = 'USER_LIMIT_CANCELED',
+  LIMIT_USER_CREATED = 'LIMIT_USER_CREATED',
+  LIMIT_USER_PENDING_PAYMENT_CREATED = 'LIMIT_USER_PENDING_PAYMENT_CREATED',
+  LIMIT_USER_PENDING_PAYMENT_PROCESSED = 'LIMIT_USER_PENDING_PAYMENT_PROCESSED',
 }
 
-export interface BaseEvent {
-  eventId: string;
-  eventType: EventType;
-  timestamp: string;
-  userId: string;
-}
+// Event types are inferred from their schemas, so the validator and the types cannot drift
+export type UserLimitCreatedEvent = yup.InferType<typeof userLimitCreatedSchema>;
+export type UserLimitProgressChangedEvent = yup.InferType<typeof userLimitProgressChangedSchema>;
+export type UserLimitResetEvent = yup.InferType<typeof userLimitResetSchema>;
+export type UserLimitChangeSourceAddedEvent = yup.InferType<
+  typeof userLimitChangeSourceAddedSchema
+>;
 
-export interface UserLimitCreatedEvent extends BaseEvent {
-  eventType: EventType.USER_LIMIT_CREATED;
-  limitType: LimitType;
-  limitAmount: number;
-  periodType: 'DAY' | 'WEEK' | 'MONTH';
-  startDate: string;
-}
+export type UserLimitChangedEvent = yup.InferType<typeof userLimitChangedSchema>;
+export type UserLimitCanceledEvent = yup.InferType<typeof userLimitCanceledSchema>;
 
-export interface UserLimitProgressChangedEvent extends BaseEvent {
-  eventType: EventType.USER_LIMIT_PROGRESS_CHANGED;
-  limitId: string;
-  newProgress: number;
-  changeAmount: number;
-}
+export type UserLimitEvent =
+  | UserLimitCreatedEvent
+  | UserLimitProgressChangedEvent
+  | UserLimitResetEvent
+  | UserLimitChangeSourceAddedEvent
+  | UserLimitChangedEvent
+  | UserLimitCanceledEvent;
 
-export interface UserLimitResetEvent extends BaseEvent {
-  eventType: EventType.USER_LIMIT_RESET;
-  limitId: string;
-  resetReason?: string;
-}
+export type UserLimitEventType = UserLimitEvent['eventType'];
@@ -1,6 +1,8 @@
 export enum LimitStatus {
   ACTIVE = 'ACTIVE',
   CANCELED = 'CANCELED',
+  /** Set by the service once `activeUntil` has passed */
+  EXPIRED = 'EXPIRED',
   FUTURE = 'FUTURE',
   IN_COOLDOWN = 'IN_COOLDOWN',
 }
@@ -24,14 +26,40 @@ export enum LimitType {
   SESSION = 'SESSION',
 }
 
+/**
+ * A payment or other source that contributed to a limit's progress
+ */
+export interface LimitChangeSource {
+  sourceId: string;
+  amount: string;
+  addedAt: number;
+  /** After this time the contribution no longer counts towards the limit */
+  expiresAt?: number;
+  eventId?: string;
+}
+
 export interface UserLimit {
   activeFrom: number;
   activeUntil?: number;
   brandId: string;
+  changeSources?: LimitChangeSource[];
+  /** End of the cooling-off period while the limit is IN_COOLDOWN */
+  cooldownUntil?: number;
   createdAt?: number;
+  /** eventId of the USER_LIMIT_CREATED event the limit was created from */
+  createdByEventId?: string;
   currencyCode: string;
+  /** Timestamp (ms) of the last event applied to this limit */
+  lastEventTimestamp?: number;
+  /** Per-aggregate sequence number of the last event applied to this limit */
+  lastSequenceNumber?: number;
+  /** eventIds of the most recent events applied to this limit, oldest first */
+  recentEventIds?: string[];
   nextResetTime?: number;
+  /** The limit becomes CANCELED instead of ACTIVE when the cooling-off period ends */
+  pendingCancellation?: boolean;
   period: LimitPeriod;
+  /** Value before the last change; applies instead of `value` while IN_COOLDOWN */
   previousLimitValue?: string;
   progress?: string;
   status: LimitStatus;
@@ -39,4 +67,18 @@ export interface UserLimit {
   userId: string;
   userLimitId: string;
   value: string;
+  /** Incremented by the repository on every update, used for optimistic concurrency */
+  version?: number;
+}
+
+/**
+ * Current progress of a limit together with the sources that still contribute to it
+ */
+export interface ProgressExplanation {
+  userLimitId: string;
+  currencyCode: string;
+  progress: string;
+  sources: LimitChangeSource[];
+  /** Sum of the listed sources; differs from progress when contributions were not reported */
+  sourcesTotal: string;
 }
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ResilientUserLimitRepository, isTransientError } from '../resilient-user-limit-repository';
+import { InMemoryUserLimitRepository } from '../user-limit-repository';
+import { withDeadline } from '../../../utils/invocation-deadline';
+import { CircuitOpenError, RepositoryError, UserLimitNotFoundError } from '../../../types/errors';
+
+describe('ResilientUserLimitRepository', () => {
+  let inner: InMemoryUserLimitRepository;
+  let repository: ResilientUserLimitRepository;
+  let now: number;
+  let delays: number[];
+
+  const throttled = (): Error => Object.assign(new Error('Rate exceeded'), { name: 'Throttling' });
+
+  beforeEach(() => {
+    now = 0;
+    delays = [];
+    inner = new InMemoryUserLimitRepository();
+    repository = new ResilientUserLimitRepository(inner, {
+      maxAttempts: 3,
+      baseDelayMs: 100,
+      maxDelayMs: 150,
+      failureThreshold: 5,
+      resetTimeoutMs: 1000,
+      random: () => 0.5,
+      now: () => now,
+      sleep: (ms) => {
+        delays.push(ms);
+        now += ms;
+        return Promise.resolve();
+      },
+    });
+  });
+
+  it('should retry transient failures with jittered exponential backoff', async () => {
+    const findById = vi
+      .spyOn(inner, 'findById')
+      .mockRejectedValueOnce(throttled())
+      .mockRejectedValueOnce(throttled());
+
+    await expect(repository.findById('limit-1')).resolves.toBeNull();
+
+    expect(findById).toHaveBeenCalledTimes(3);
+    expect(delays).toEqual([50, 75]);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    vi.spyOn(inner, 'findByUserId').mockRejectedValue(throttled());
+
+    await expect(repository.findByUserId('user-1')).rejects.toThrow('Rate exceeded');
+
+    expect(delays).toHaveLength(2);
+  });
+
+  it('should not retry answers from the backend', async () => {
+    const deleteLimit = vi.spyOn(inner, 'delete');
+
+    await expect(repository.delete('limit-1')).rejects.toThrow(UserLimitNotFoundError);
+
+    expect(deleteLimit).toHaveBeenCalledTimes(1);
+    expect(delays).toEqual([]);
+  });
+
+  it('should not retry errors that are not transient', async () => {
+    const validation = Object.assign(new Error('One or more parameter values were invalid'), {
+      name: 'ValidationException',
+      $metadata: { httpStatusCode: 400 },
+    });
+    const findById = vi.spyOn(inner, 'findById').mockRejectedValue(validation);
+
+    await expect(repository.findById('limit-1')).rejects.toThrow(validation);
+
+    expect(findById).toHaveBeenCalledTimes(1);
+    expect(delays).toEqual([]);
+  });
+
+  it('should not retry when the backoff does not fit into the invocation deadline', async () => {
+    const findById = vi.spyOn(inner, 'findById').mockRejectedValue(throttled());
+
+    await expect(withDeadline(now + 60, () => repository.findById('limit-1'))).rejects.toThrow(
+      'Rate exceeded'
+    );
+
+    expect(findById).toHaveBeenCalledTimes(2);
+    expect(delays).toEqual([50]);
+  });
+
+  it('should fail fast once the circuit is open', async () => {
+    const findById = vi.spyOn(inner, 'findById').mockRejectedValue(throttled());
+
+    await expect(repository.findById('limit-1')).rejects.toThrow('Rate exceeded');
+    await expect(repository.findById('limit-1')).rejects.toThrow(CircuitOpenError);
+    expect(findById).toHaveBeenCalledTimes(5);
+
+    now += 1000;
+    findById.mockResolvedValue(null);
+    await expect(repository.findById('limit-1')).resolves.toBeNull();
+  });
+});
+
+describe('isTransientError', () => {
+  const awsError = (name: string, httpStatusCode?: number): Error =>
+    Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+
+  it('should treat throttling, 5xx, timeouts and network errors as transient', () => {
+    expect(isTransientError(awsError('ProvisionedThroughputExceededException', 400))).toBe(true);
+    expect(isTransientError(awsError('ThrottlingException', 400))).toBe(true);
+    expect(isTransientError(awsError('InternalServerError', 500))).toBe(true);
+    expect(isTransientError(awsError('ServiceUnavailable', 503))).toBe(true);
+    expect(isTransientError(awsError('TimeoutError'))).toBe(true);
+    expect(
+      isTransientError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+    ).toBe(true);
+  });
+
+  it('should treat everything else as permanent', () => {
+    expect(isTransientError(awsError('ValidationException', 400))).toBe(false);
+    expect(isTransientError(awsError('ResourceNotFoundException', 400))).toBe(false);
+    expect(isTransientError(new RepositoryError('Not found'))).toBe(false);
+    expect(isTransientError(new TypeError('Cannot read properties of undefined'))).toBe(false);
+    expect(isTransientError('Throttling')).toBe(false);
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { IUserLimitRepository, InMemoryUserLimitRepository } from '../user-limit-repository';
+import {
+  DynamoDBUserLimitRepository,
+  createUserLimitTableDefinition,
+} from '../dynamodb-user-limit-repository';
+import { createUserLimitRepository } from '../repository-factory';
+import { ResilientUserLimitRepository } from '../resilient-user-limit-repository';
+import { UserLimit, LimitStatus, LimitType, LimitPeriod } from '../../models/user-limit';
+import {
+  InvalidUserLimitError,
+  UserLimitAlreadyExistsError,
+  UserLimitNotFoundError,
+  UserLimitVersionConflictError,
+} from '../../../types/errors';
+import { DynamoDBLocal, startDynamoDBLocal } from '../../../test-utils/dynamodb-local';
+
+const TABLE_NAME = 'UserLimits';
+
+function createUserLimit(overrides: Partial<UserLimit> = {}): UserLimit {
+  return {
+    userLimitId: 'limit-1',
+    userId: 'user-1',
+    brandId: 'brand-1',
+    type: LimitType.DEPOSIT,
+    period: LimitPeriod.DAY,
+    value: '1000',
+    currencyCode: 'USD',
+    status: LimitStatus.ACTIVE,
+    activeFrom: 1234567890,
+    progress: '0',
+    createdAt: 1234567890,
+    ...overrides,
+  };
+}
+
+function describeRepository(
+  name: string,
+  setup: () => Promise<IUserLimitRepository>,
+  teardown: () => Promise<void> = () => Promise.resolve()
+): void {
+  describe(name, () => {
+    let repository: IUserLimitRepository;
+
+    beforeEach(async () => {
+      repository = await setup();
+    });
+
+    afterEach(teardown);
+
+    it('should save and find a limit by id', async () => {
+      const limit = createUserLimit();
+
+      await repository.save(limit);
+
+      expect(await repository.findById('limit-1')).toEqual({ ...limit, version: 1 });
+    });
+
+    it('should return null for an unknown id', async () => {
+      expect(await repository.findById('missing')).toBeNull();
+    });
+
+    it('should reject saving a limit that already exists', async () => {
+      await repository.save(createUserLimit());
+
+      await expect(repository.save(createUserLimit({ value: '5' }))).rejects.toThrow(
+        UserLimitAlreadyExistsError
+      );
+      expect((await repository.findById('limit-1'))?.value).toBe('1000');
+    });
+
+    it('should find all limits of a user', async () => {
+      await repository.save(createUserLimit({ userLimitId: 'limit-1' }));
+      await repository.save(createUserLimit({ userLimitId: 'limit-2' }));
+      await repository.save(createUserLimit({ userLimitId: 'limit-3', userId: 'user-2' }));
+
+      const limits = await repository.findByUserId('user-1');
+
+      expect(limits.map((l) => l.userLimitId).sort()).toEqual(['limit-1', 'limit-2']);
+      expect(await repository.findByUserId('user-3')).toEqual([]);
+    });
+
+    it('should update an existing limit', async () => {
+      await repository.save(createUserLimit({ nextResetTime: 1000 }));
+
+      await repository.update(
+        createUserLimit({ progress: '250', nextResetTime: undefined, lastSequenceNumber: 4 })
+      );
+
+      const updated = await repository.findById('limit-1');
+      expect(updated).toMatchObject({ progress: '250', lastSequenceNumber: 4 });
+      expect(updated?.nextResetTime).toBeUndefined();
+    });
+
+    it('should reject updating a limit that does not exist', async () => {
+      await expect(repository.update(createUserLimit())).rejects.toThrow(UserLimitNotFoundError);
+      expect(await repository.findById('limit-1')).toBeNull();
+    });
+
+    it('should increment the version on every update', async () => {
+      await repository.save(createUserLimit());
+
+      await repository.update(createUserLimit({ progress: '1' }));
+      await repository.update(createUserLimit({ progress: '2', version: 1 }), 2);
+
+      expect((await repository.findById('limit-1'))?.version).toBe(3);
+    });
+
+    it('should reject an update with a stale expected version', async () => {
+      await repository.save(createUserLimit());
+      await repository.update(createUserLimit({ progress: '100' }), 1);
+
+      await expect(repository.update(createUserLimit({ progress: '50' }), 1)).rejects.toThrow(
+        UserLimitVersionConflictError
+      );
+      expect(await repository.findById('limit-1')).toMatchObject({ progress: '100', version: 2 });
+    });
+
+    it('should report a missing limit rather than a conflict on versioned updates', async () => {
+      await expect(repository.update(createUserLimit(), 1)).rejects.toThrow(UserLimitNotFoundError);
+    });
+
+    it('should delete a limit', async () => {
+      await repository.save(createUserLimit());
+
+      await repository.delete('limit-1');
+
+      expect(await repository.findById('limit-1')).toBeNull();
+      expect(await repository.findByUserId('user-1')).toEqual([]);
+      await expect(repository.delete('limit-1')).rejects.toThrow(UserLimitNotFoundError);
+    });
+
+    it('should reject empty ids', async () => {
+      await expect(repository.findById(' ')).rejects.toThrow(InvalidUserLimitError);
+      await expect(repository.findByUserId('')).rejects.toThrow(InvalidUserLimitError);
+      await expect(repository.delete('')).rejects.toThrow(InvalidUserLimitError);
+    });
+  });
+}
+
+describe('UserLimitRepository', () => {
+  describeRepository('InMemoryUserLimitRepository', () =>
+    Promise.resolve(new InMemoryUserLimitRepository())
+  );
+
+  describe('with DynamoDB Local', () => {
+    let dynamo: DynamoDBLocal;
+
+    beforeAll(async () => {
+      dynamo = await startDynamoDBLocal();
+    });
+
+    afterAll(async () => {
+      await dynamo.stop();
+    });
+
+    describeRepository(
+      'DynamoDBUserLimitRepository',
+      async () => {
+        await dynamo.createTable(createUserLimitTableDefinition(TABLE_NAME));
+        return new DynamoDBUserLimitRepository(TABLE_NAME, dynamo.documentClient);
+      },
+      () => dynamo.deleteTable(TABLE_NAME)
+    );
+
+    describe('DynamoDBUserLimitRepository specifics', () => {
+      beforeEach(async () => {
+        await dynamo.createTable(createUserLimitTableDefinition(TABLE_NAME));
+      });
+
+      afterEach(() => dynamo.deleteTable(TABLE_NAME));
+
+      it('should find limits written by another repository instance', async () => {
+        const writer = new DynamoDBUserLimitRepository(TABLE_NAME, dynamo.documentClient);
+        const reader = new DynamoDBUserLimitRepository(TABLE_NAME, dynamo.documentClient);
+
+        await writer.save(createUserLimit());
+
+        expect(await reader.findById('limit-1')).toMatchObject({ userId: 'user-1' });
+      });
+
+      it('should treat limits stored without a version as version 0', async () => {
+        const repository = new DynamoDBUserLimitRepository(TABLE_NAME, dynamo.documentClient);
+        await dynamo.documentClient.send(
+          new PutCommand({ TableName: TABLE_NAME, Item: createUserLimit() })
+        );
+
+        await repository.update(createUserLimit({ progress: '10' }), 0);
+
+        expect(await repository.findById('limit-1')).toMatchObject({ progress: '10', version: 1 });
+      });
+
+      it('should page through all limits of a user', async () => {
+        const repository = new DynamoDBUserLimitRepository(TABLE_NAME, dynamo.documentClient);
+        // ~50KB per item forces DynamoDB's 1MB query page limit to kick in
+        const padding = 'x'.repeat(50 * 1024);
+        const count = 25;
+
+        for (let i = 0; i < count; i++) {
+          await repository.save(
+            createUserLimit({ userLimitId: `limit-${i}`, previousLimitValue: padding })
+          );
+        }
+
+        expect(await repository.findByUserId('user-1')).toHaveLength(count);
+      });
+
+      it('should connect to the endpoint given to the factory', async () => {
+        const originalEnv = { ...process.env };
+        process.env.REPOSITORY_TYPE = 'dynamodb';
+        process.env.USER_LIMIT_TABLE_NAME = TABLE_NAME;
+        process.env.AWS_ACCESS_KEY_ID = 'local';
+        process.env.AWS_SECRET_ACCESS_KEY = 'local';
+
+        try {
+          const repository = createUserLimitRepository({ endpoint: dynamo.endpoint });
+
+          expect(repository).toBeInstanceOf(ResilientUserLimitRepository);
+          await repository.save(createUserLimit());
+          expect(await repository.findById('limit-1')).not.toBeNull();
+          expect(
+            createUserLimitRepository({ endpoint: dynamo.endpoint, resilience: false })
+          ).toBeInstanceOf(DynamoDBUserLimitRepository);
+        } finally {
+          process.env = originalEnv;
+        }
+      });
+    });
+  });
+});
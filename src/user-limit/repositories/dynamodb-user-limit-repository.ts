@@ -1,54 +1,279 @@
+import { ConditionalCheckFailedException, CreateTableCommandInput } from '@aws-sdk/client-dynamodb';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
 import { UserLimit } from '../models/user-limit';
 import { IUserLimitRepository } from './user-limit-repository';
 import { createChildLogger } from '../../utils/logger';
-import { NotImplementedError } from '../../types/errors';
+import { createDynamoDBDocumentClient } from '../../utils/dynamodb-client';
+import {
+  InvalidUserLimitError,
+  UserLimitAlreadyExistsError,
+  UserLimitNotFoundError,
+  UserLimitVersionConflictError,
+} from '../../types/errors';
 
 const logger = createChildLogger({ service: 'dynamodb-user-limit-repository' });
 
-// Mock up of DynamoDB implementation of IUserLimitRepository
-// Next steps:
-// run - npm install @aws-sdk/client-dynamodb @aws-sdk/lib-dynamodb
-// create DynamoDB table with proper schema and configure credentials
-// implement the methods
+export const USER_LIMIT_ID_INDEX = 'userLimitId-index';
+
+/** Attributes `update` never writes from the given limit */
+const UPDATE_EXCLUDED_ATTRIBUTES = new Set<string>(['userId', 'userLimitId', 'version']);
+
+/**
+ * Table definition expected by DynamoDBUserLimitRepository
+ *
+ * - Partition key: userId, sort key: userLimitId - one query returns all limits of a user
+ * - GSI userLimitId-index (keys only) resolves the userId of a limit for findById/delete
+ */
+export function createUserLimitTableDefinition(tableName: string): CreateTableCommandInput {
+  return {
+    TableName: tableName,
+    BillingMode: 'PAY_PER_REQUEST',
+    AttributeDefinitions: [
+      { AttributeName: 'userId', AttributeType: 'S' },
+      { AttributeName: 'userLimitId', AttributeType: 'S' },
+    ],
+    KeySchema: [
+      { AttributeName: 'userId', KeyType: 'HASH' },
+      { AttributeName: 'userLimitId', KeyType: 'RANGE' },
+    ],
+    GlobalSecondaryIndexes: [
+      {
+        IndexName: USER_LIMIT_ID_INDEX,
+        KeySchema: [{ AttributeName: 'userLimitId', KeyType: 'HASH' }],
+        Projection: { ProjectionType: 'KEYS_ONLY' },
+      },
+    ],
+  };
+}
+
 export class DynamoDBUserLimitRepository implements IUserLimitRepository {
   private tableName: string;
 
-  constructor(tableName?: string) {
+  // GSI reads are eventually consistent, so limits written by this container are resolved
+  // locally first; the consistent GetItem that follows always sees the latest write.
+  private userIdByLimitId: Map<string, string> = new Map();
+
+  constructor(
+    tableName?: string,
+    private readonly client: DynamoDBDocumentClient = createDynamoDBDocumentClient()
+  ) {
     this.tableName = tableName || process.env.USER_LIMIT_TABLE_NAME || 'UserLimits';
+  }
 
-    logger.warn(
-      { tableName: this.tableName },
-      'DynamoDBUserLimitRepository is not implemented - use REPOSITORY_TYPE=inmemory instead'
-    );
+  async save(userLimit: UserLimit): Promise<void> {
+    try {
+      await this.client.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: { ...userLimit, version: userLimit.version ?? 1 },
+          ConditionExpression: 'attribute_not_exists(userLimitId)',
+        })
+      );
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new UserLimitAlreadyExistsError(userLimit.userLimitId);
+      }
+      throw error;
+    }
+
+    this.userIdByLimitId.set(userLimit.userLimitId, userLimit.userId);
   }
 
-  save(_userLimit: UserLimit): Promise<void> {
-    throw new NotImplementedError(
-      'DynamoDBUserLimitRepository not implemented - use REPOSITORY_TYPE=inmemory'
+  async findById(limitId: string): Promise<UserLimit | null> {
+    if (!limitId || limitId.trim() === '') {
+      throw new InvalidUserLimitError('limitId cannot be empty');
+    }
+
+    const userId = await this.resolveUserId(limitId);
+    if (!userId) {
+      return null;
+    }
+
+    const { Item } = await this.client.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: { userId, userLimitId: limitId },
+        ConsistentRead: true,
+      })
     );
+
+    return Item ? (Item as UserLimit) : null;
   }
 
-  findById(_limitId: string): Promise<UserLimit | null> {
-    throw new NotImplementedError(
-      'DynamoDBUserLimitRepository not implemented - use REPOSITORY_TYPE=inmemory'
-    );
+  async findByUserId(userId: string): Promise<UserLimit[]> {
+    if (!userId || userId.trim() === '') {
+      throw new InvalidUserLimitError('userId cannot be empty');
+    }
+
+    const userLimits: UserLimit[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const { Items, LastEvaluatedKey } = await this.client.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'userId = :userId',
+          ExpressionAttributeValues: { ':userId': userId },
+          ConsistentRead: true,
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+
+      userLimits.push(...((Items ?? []) as UserLimit[]));
+      exclusiveStartKey = LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return userLimits;
   }
 
-  findByUserId(_userId: string): Promise<UserLimit[]> {
-    throw new NotImplementedError(
-      'DynamoDBUserLimitRepository not implemented - use REPOSITORY_TYPE=inmemory'
-    );
+  async update(userLimit: UserLimit, expectedVersion?: number): Promise<void> {
+    const { userId, userLimitId } = userLimit;
+    const names: Record<string, string> = { '#version': 'version' };
+    const values: Record<string, unknown> = { ':zero': 0, ':one': 1 };
+    const setClauses: string[] = ['#version = if_not_exists(#version, :zero) + :one'];
+    const removeClauses: string[] = [];
+
+    for (const [name, value] of Object.entries(userLimit)) {
+      // Keys cannot change, and the stored version is incremented instead of overwritten
+      if (UPDATE_EXCLUDED_ATTRIBUTES.has(name)) {
+        continue;
+      }
+
+      names[`#${name}`] = name;
+      if (value === undefined) {
+        removeClauses.push(`#${name}`);
+      } else {
+        values[`:${name}`] = value;
+        setClauses.push(`#${name} = :${name}`);
+      }
+    }
+
+    const updateExpression = `SET ${setClauses.join(', ')}${
+      removeClauses.length > 0 ? ` REMOVE ${removeClauses.join(', ')}` : ''
+    }`;
+
+    let conditionExpression = 'attribute_exists(userLimitId)';
+    if (expectedVersion !== undefined) {
+      values[':expectedVersion'] = expectedVersion;
+      conditionExpression +=
+        expectedVersion === 0
+          ? ' AND (attribute_not_exists(#version) OR #version = :expectedVersion)'
+          : ' AND #version = :expectedVersion';
+    }
+
+    try {
+      await this.client.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { userId, userLimitId },
+          UpdateExpression: updateExpression,
+          ConditionExpression: conditionExpression,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+        })
+      );
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        throw await this.conditionFailure(userId, userLimitId, expectedVersion);
+      }
+      throw error;
+    }
+  }
+
+  async delete(limitId: string): Promise<void> {
+    if (!limitId || limitId.trim() === '') {
+      throw new InvalidUserLimitError('limitId cannot be empty');
+    }
+
+    const userId = await this.resolveUserId(limitId);
+    if (!userId) {
+      throw new UserLimitNotFoundError(limitId);
+    }
+
+    try {
+      await this.client.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: { userId, userLimitId: limitId },
+          ConditionExpression: 'attribute_exists(userLimitId)',
+        })
+      );
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new UserLimitNotFoundError(limitId);
+      }
+      throw error;
+    } finally {
+      this.userIdByLimitId.delete(limitId);
+    }
   }
 
-  update(_userLimit: UserLimit): Promise<void> {
-    throw new NotImplementedError(
-      'DynamoDBUserLimitRepository not implemented - use REPOSITORY_TYPE=inmemory'
+  /**
+   * A failed update condition means either a missing limit or a version mismatch;
+   * a consistent read tells them apart.
+   */
+  private async conditionFailure(
+    userId: string,
+    userLimitId: string,
+    expectedVersion?: number
+  ): Promise<Error> {
+    if (expectedVersion === undefined) {
+      return new UserLimitNotFoundError(userLimitId);
+    }
+
+    const { Item } = await this.client.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: { userId, userLimitId },
+        ConsistentRead: true,
+      })
+    );
+
+    if (!Item) {
+      return new UserLimitNotFoundError(userLimitId);
+    }
+
+    logger.warn(
+      { userLimitId, expectedVersion, actualVersion: Item.version as number | undefined },
+      'UserLimit version conflict'
+    );
+    return new UserLimitVersionConflictError(
+      userLimitId,
+      expectedVersion,
+      Item.version as number | undefined
     );
   }
 
-  delete(_limitId: string): Promise<void> {
-    throw new NotImplementedError(
-      'DynamoDBUserLimitRepository not implemented - use REPOSITORY_TYPE=inmemory'
+  private async resolveUserId(limitId: string): Promise<string | undefined> {
+    const cached = this.userIdByLimitId.get(limitId);
+    if (cached) {
+      return cached;
+    }
+
+    const { Items } = await this.client.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        IndexName: USER_LIMIT_ID_INDEX,
+        KeyConditionExpression: 'userLimitId = :userLimitId',
+        ExpressionAttributeValues: { ':userLimitId': limitId },
+        Limit: 1,
+      })
     );
+
+    const userId = Items?.[0]?.userId as string | undefined;
+    if (!userId) {
+      logger.debug({ userLimitId: limitId }, 'UserLimit not found in userLimitId index');
+      return undefined;
+    }
+
+    this.userIdByLimitId.set(limitId, userId);
+    return userId;
   }
 }
@@ -0,0 +1,38 @@
+import { UserLimit } from '../models/user-limit';
+import { IUserLimitRepository } from './user-limit-repository';
+import { IMetrics, MetricName, timed } from '../../metrics/metrics';
+
+/**
+ * Records the latency of every repository call as RepositoryLatency, with the method
+ * name as the Operation dimension. Failed calls are measured as well.
+ */
+export class MeteredUserLimitRepository implements IUserLimitRepository {
+  constructor(
+    private readonly repository: IUserLimitRepository,
+    private readonly metrics: IMetrics
+  ) {}
+
+  save(userLimit: UserLimit): Promise<void> {
+    return this.measure('save', () => this.repository.save(userLimit));
+  }
+
+  findById(limitId: string): Promise<UserLimit | null> {
+    return this.measure('findById', () => this.repository.findById(limitId));
+  }
+
+  findByUserId(userId: string): Promise<UserLimit[]> {
+    return this.measure('findByUserId', () => this.repository.findByUserId(userId));
+  }
+
+  update(userLimit: UserLimit, expectedVersion?: number): Promise<void> {
+    return this.measure('update', () => this.repository.update(userLimit, expectedVersion));
+  }
+
+  delete(limitId: string): Promise<void> {
+    return this.measure('delete', () => this.repository.delete(limitId));
+  }
+
+  private measure<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    return timed(this.metrics, MetricName.REPOSITORY_LATENCY, { Operation: operation }, fn);
+  }
+}
@@ -1,19 +1,40 @@
 import { IUserLimitRepository, InMemoryUserLimitRepository } from './user-limit-repository';
 import { DynamoDBUserLimitRepository } from './dynamodb-user-limit-repository';
+import { ResilienceOptions, ResilientUserLimitRepository } from './resilient-user-limit-repository';
 import { createChildLogger } from '../../utils/logger';
+import { createDynamoDBDocumentClient } from '../../utils/dynamodb-client';
+import { readPositiveInteger } from '../../utils/env';
 
 const logger = createChildLogger({ service: 'repository-factory' });
 
 export type RepositoryType = 'inmemory' | 'dynamodb';
 
+export interface RepositoryFactoryOptions {
+  /** DynamoDB endpoint override, e.g. DynamoDB Local (takes precedence over DYNAMODB_ENDPOINT) */
+  endpoint?: string;
+  /**
+   * Retry and circuit breaker settings for the DynamoDB repository, taking precedence
+   * over the environment; false leaves the repository unwrapped
+   */
+  resilience?: ResilienceOptions | false;
+}
+
 /**
  * Factory function to create UserLimitRepository based on environment configuration
  *
  * Environment Variables:
  * - REPOSITORY_TYPE: 'inmemory' | 'dynamodb' (default: 'inmemory')
  * - USER_LIMIT_TABLE_NAME: DynamoDB table name (required if using dynamodb)
+ * - DYNAMODB_ENDPOINT: optional endpoint override, e.g. DynamoDB Local
+ * - REPOSITORY_RETRY_MAX_ATTEMPTS: attempts per DynamoDB call, 1 disables retries (default: 3)
+ * - REPOSITORY_RETRY_BASE_DELAY_MS: backoff before the first retry (default: 50)
+ * - REPOSITORY_RETRY_MAX_DELAY_MS: upper bound for a single backoff (default: 1000)
+ * - REPOSITORY_CIRCUIT_FAILURE_THRESHOLD: consecutive failures that open the circuit (default: 5)
+ * - REPOSITORY_CIRCUIT_RESET_TIMEOUT_MS: how long the circuit stays open (default: 30000)
  */
-export function createUserLimitRepository(): IUserLimitRepository {
+export function createUserLimitRepository(
+  options: RepositoryFactoryOptions = {}
+): IUserLimitRepository {
   const repositoryType = (
     process.env.REPOSITORY_TYPE || 'inmemory'
   ).toLowerCase() as RepositoryType;
@@ -23,7 +44,23 @@ export function createUserLimitRepository(): IUserLimitRepository {
     if (!tableName) {
       logger.warn({}, 'USER_LIMIT_TABLE_NAME not set, falling back to default');
     }
-    return new DynamoDBUserLimitRepository(tableName);
+    // ResilientUserLimitRepository does the retrying, so the SDK makes a single attempt
+    const resilient = options.resilience !== false;
+    const repository = new DynamoDBUserLimitRepository(
+      tableName,
+      createDynamoDBDocumentClient({
+        endpoint: options.endpoint,
+        maxAttempts: resilient ? 1 : undefined,
+      })
+    );
+
+    if (!resilient) {
+      return repository;
+    }
+    return new ResilientUserLimitRepository(repository, {
+      ...readResilienceOptions(),
+      ...options.resilience,
+    });
   }
 
   if (repositoryType !== 'inmemory') {
@@ -32,3 +69,13 @@ export function createUserLimitRepository(): IUserLimitRepository {
 
   return new InMemoryUserLimitRepository();
 }
+
+function readResilienceOptions(): ResilienceOptions {
+  return {
+    maxAttempts: readPositiveInteger('REPOSITORY_RETRY_MAX_ATTEMPTS'),
+    baseDelayMs: readPositiveInteger('REPOSITORY_RETRY_BASE_DELAY_MS'),
+    maxDelayMs: readPositiveInteger('REPOSITORY_RETRY_MAX_DELAY_MS'),
+    failureThreshold: readPositiveInteger('REPOSITORY_CIRCUIT_FAILURE_THRESHOLD'),
+    resetTimeoutMs: readPositiveInteger('REPOSITORY_CIRCUIT_RESET_TIMEOUT_MS'),
+  };
+}
@@ -0,0 +1,162 @@
+import { UserLimit } from '../models/user-limit';
+import { IUserLimitRepository } from './user-limit-repository';
+import { CircuitBreaker, CircuitBreakerOptions } from '../../utils/circuit-breaker';
+import { getRemainingTime } from '../../utils/invocation-deadline';
+import { createChildLogger } from '../../utils/logger';
+import { RepositoryError } from '../../types/errors';
+
+const logger = createChildLogger({ service: 'resilient-user-limit-repository' });
+
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 50;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 1000;
+
+export interface ResilienceOptions extends CircuitBreakerOptions {
+  /** Attempts per call, including the first one; 1 disables retries (default: 3) */
+  maxAttempts?: number;
+  /** Backoff before the first retry, doubled on every further retry (default: 50) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff (default: 1000) */
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  /** Source of the backoff jitter, in [0, 1) (default: Math.random) */
+  random?: () => number;
+}
+
+/** AWS error names for throttling and capacity errors */
+const THROTTLING_ERROR_NAMES = new Set([
+  'Throttling',
+  'ThrottlingException',
+  'ThrottledException',
+  'ProvisionedThroughputExceededException',
+  'RequestLimitExceeded',
+  'RequestThrottled',
+  'RequestThrottledException',
+  'TooManyRequestsException',
+  'SlowDown',
+]);
+
+/** Error names for timeouts, from the AWS SDK and from aborted requests */
+const TIMEOUT_ERROR_NAMES = new Set(['TimeoutError', 'RequestTimeout', 'RequestTimeoutException']);
+
+/** Node.js error codes for connections that failed or were dropped */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+]);
+
+interface AwsErrorShape {
+  name?: string;
+  code?: string;
+  $metadata?: { httpStatusCode?: number };
+  $retryable?: unknown;
+}
+
+/**
+ * Errors worth retrying: throttling, 5xx responses, timeouts and network errors.
+ * Anything else, in particular a RepositoryError (not found, version conflict, an open
+ * circuit, ...) or a 4xx validation error, would fail the same way again.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error) || error instanceof RepositoryError) {
+    return false;
+  }
+
+  const { name, code, $metadata, $retryable } = error as AwsErrorShape;
+  const statusCode = $metadata?.httpStatusCode;
+
+  return (
+    $retryable !== undefined ||
+    THROTTLING_ERROR_NAMES.has(name ?? '') ||
+    TIMEOUT_ERROR_NAMES.has(name ?? '') ||
+    NETWORK_ERROR_CODES.has(code ?? '') ||
+    statusCode === 429 ||
+    (statusCode !== undefined && statusCode >= 500)
+  );
+}
+
+/**
+ * Retries transient failures with full-jitter exponential backoff and guards the
+ * backend with a circuit breaker. A retry is only attempted while its backoff fits into
+ * the remaining time of the invocation (see withDeadline). The wrapped repository should
+ * not retry on its own, or the attempts multiply: createUserLimitRepository gives the
+ * DynamoDB client a single attempt.
+ */
+export class ResilientUserLimitRepository implements IUserLimitRepository {
+  private readonly breaker: CircuitBreaker;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly repository: IUserLimitRepository,
+    options: ResilienceOptions = {}
+  ) {
+    this.breaker = new CircuitBreaker('user-limit-repository', options);
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_RETRY_MAX_ATTEMPTS;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.random = options.random ?? Math.random;
+    this.now = options.now ?? Date.now;
+  }
+
+  save(userLimit: UserLimit): Promise<void> {
+    return this.call('save', () => this.repository.save(userLimit));
+  }
+
+  findById(limitId: string): Promise<UserLimit | null> {
+    return this.call('findById', () => this.repository.findById(limitId));
+  }
+
+  findByUserId(userId: string): Promise<UserLimit[]> {
+    return this.call('findByUserId', () => this.repository.findByUserId(userId));
+  }
+
+  update(userLimit: UserLimit, expectedVersion?: number): Promise<void> {
+    return this.call('update', () => this.repository.update(userLimit, expectedVersion));
+  }
+
+  delete(limitId: string): Promise<void> {
+    return this.call('delete', () => this.repository.delete(limitId));
+  }
+
+  private async call<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.breaker.execute(fn, isTransientError);
+      } catch (error) {
+        if (!isTransientError(error) || attempt >= this.maxAttempts) {
+          throw error;
+        }
+
+        const delay = this.backoff(attempt);
+        const remainingTime = getRemainingTime(this.now());
+        const context = { operation, attempt, delay, err: (error as Error).message };
+
+        if (remainingTime !== undefined && remainingTime < delay) {
+          logger.warn({ ...context, remainingTime }, 'No time left to retry repository call');
+          throw error;
+        }
+
+        logger.warn(context, 'Repository call failed, retrying');
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempt - 1));
+    return Math.floor(this.random() * ceiling);
+  }
+}
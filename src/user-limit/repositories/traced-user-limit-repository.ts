@@ -0,0 +1,51 @@
+import { UserLimit } from '../models/user-limit';
+import { IUserLimitRepository } from './user-limit-repository';
+import { SpanAttribute, SpanAttributes, withSpan } from '../../tracing/tracing';
+
+/**
+ * Wraps every repository call in a `UserLimitRepository.<method>` span
+ */
+export class TracedUserLimitRepository implements IUserLimitRepository {
+  constructor(private readonly repository: IUserLimitRepository) {}
+
+  save(userLimit: UserLimit): Promise<void> {
+    return this.span('save', this.limitAttributes(userLimit), () =>
+      this.repository.save(userLimit)
+    );
+  }
+
+  findById(limitId: string): Promise<UserLimit | null> {
+    return this.span('findById', { [SpanAttribute.USER_LIMIT_ID]: limitId }, () =>
+      this.repository.findById(limitId)
+    );
+  }
+
+  findByUserId(userId: string): Promise<UserLimit[]> {
+    return this.span('findByUserId', { [SpanAttribute.USER_ID]: userId }, () =>
+      this.repository.findByUserId(userId)
+    );
+  }
+
+  update(userLimit: UserLimit, expectedVersion?: number): Promise<void> {
+    return this.span('update', this.limitAttributes(userLimit), () =>
+      this.repository.update(userLimit, expectedVersion)
+    );
+  }
+
+  delete(limitId: string): Promise<void> {
+    return this.span('delete', { [SpanAttribute.USER_LIMIT_ID]: limitId }, () =>
+      this.repository.delete(limitId)
+    );
+  }
+
+  private limitAttributes(userLimit: UserLimit): SpanAttributes {
+    return {
+      [SpanAttribute.USER_LIMIT_ID]: userLimit.userLimitId,
+      [SpanAttribute.USER_ID]: userLimit.userId,
+    };
+  }
+
+  private span<T>(method: string, attributes: SpanAttributes, fn: () => Promise<T>): Promise<T> {
+    return withSpan(`UserLimitRepository.${method}`, attributes, fn);
+  }
+}
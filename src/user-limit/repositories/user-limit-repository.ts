@@ -2,6 +2,7 @@ import { UserLimit } from '../models/user-limit';
 import {
   UserLimitNotFoundError,
   UserLimitAlreadyExistsError,
+  UserLimitVersionConflictError,
   InvalidUserLimitError,
 } from '../../types/errors';
 
@@ -9,7 +10,12 @@ export interface IUserLimitRepository {
   save(userLimit: UserLimit): Promise<void>;
   findById(limitId: string): Promise<UserLimit | null>;
   findByUserId(userId: string): Promise<UserLimit[]>;
-  update(userLimit: UserLimit): Promise<void>;
+  /**
+   * Replaces a stored limit and increments its version. When `expectedVersion` is given,
+   * the write is rejected with UserLimitVersionConflictError if the stored version differs
+   * (limits saved before versioning count as version 0).
+   */
+  update(userLimit: UserLimit, expectedVersion?: number): Promise<void>;
   delete(limitId: string): Promise<void>;
 }
 
@@ -23,7 +29,7 @@ export class InMemoryUserLimitRepository implements IUserLimitRepository {
       throw new UserLimitAlreadyExistsError(userLimit.userLimitId);
     }
 
-    this.limits.set(userLimit.userLimitId, userLimit);
+    this.limits.set(userLimit.userLimitId, { ...userLimit, version: userLimit.version ?? 1 });
 
     // Update user index for findByUserId queries
     if (!this.userIdIndex.has(userLimit.userId)) {
@@ -63,12 +69,22 @@ export class InMemoryUserLimitRepository implements IUserLimitRepository {
   }
 
   // eslint-disable-next-line @typescript-eslint/require-await
-  async update(userLimit: UserLimit): Promise<void> {
-    if (!this.limits.has(userLimit.userLimitId)) {
+  async update(userLimit: UserLimit, expectedVersion?: number): Promise<void> {
+    const stored = this.limits.get(userLimit.userLimitId);
+    if (!stored) {
       throw new UserLimitNotFoundError(userLimit.userLimitId);
     }
 
-    this.limits.set(userLimit.userLimitId, userLimit);
+    const storedVersion = stored.version ?? 0;
+    if (expectedVersion !== undefined && storedVersion !== expectedVersion) {
+      throw new UserLimitVersionConflictError(
+        userLimit.userLimitId,
+        expectedVersion,
+        storedVersion
+      );
+    }
+
+    this.limits.set(userLimit.userLimitId, { ...userLimit, version: storedVersion + 1 });
   }
 
   // eslint-disable-next-line @typescript-eslint/require-await
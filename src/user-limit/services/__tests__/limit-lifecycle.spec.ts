@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  acceptsProgress,
+  advanceStatus,
+  canTransition,
+  effectiveLimitValue,
+  statusAt,
+  transition,
+} from '../limit-lifecycle';
+import { LimitPeriod, LimitStatus, LimitType, UserLimit } from '../../models/user-limit';
+import { InvalidStatusTransitionError } from '../../../types/errors';
+
+const ACTIVE_FROM = Date.parse('2024-01-01T00:00:00.000Z');
+const ACTIVE_UNTIL = Date.parse('2024-07-01T00:00:00.000Z');
+
+function userLimit(overrides: Partial<UserLimit> = {}): UserLimit {
+  return {
+    userLimitId: 'limit-123',
+    userId: 'user-123',
+    brandId: 'brand-123',
+    type: LimitType.DEPOSIT,
+    period: LimitPeriod.DAY,
+    value: '1000',
+    currencyCode: 'USD',
+    status: LimitStatus.ACTIVE,
+    activeFrom: ACTIVE_FROM,
+    ...overrides,
+  };
+}
+
+describe('limit lifecycle', () => {
+  it.each([
+    [LimitStatus.FUTURE, LimitStatus.ACTIVE, true],
+    [LimitStatus.ACTIVE, LimitStatus.IN_COOLDOWN, true],
+    [LimitStatus.IN_COOLDOWN, LimitStatus.ACTIVE, true],
+    [LimitStatus.IN_COOLDOWN, LimitStatus.CANCELED, true],
+    [LimitStatus.ACTIVE, LimitStatus.EXPIRED, true],
+    [LimitStatus.ACTIVE, LimitStatus.ACTIVE, true],
+    [LimitStatus.ACTIVE, LimitStatus.FUTURE, false],
+    [LimitStatus.FUTURE, LimitStatus.IN_COOLDOWN, false],
+    [LimitStatus.CANCELED, LimitStatus.ACTIVE, false],
+    [LimitStatus.EXPIRED, LimitStatus.ACTIVE, false],
+  ])('should decide whether %s -> %s is allowed (%s)', (from, to, allowed) => {
+    expect(canTransition(from, to)).toBe(allowed);
+  });
+
+  it('should reject transitions the state machine does not allow', () => {
+    const canceled = userLimit({ status: LimitStatus.CANCELED });
+
+    expect(() => transition(canceled, LimitStatus.ACTIVE, 'test')).toThrow(
+      InvalidStatusTransitionError
+    );
+    expect(() => transition(canceled, LimitStatus.ACTIVE, 'test')).toThrow(
+      'UserLimit limit-123 cannot change status from CANCELED to ACTIVE'
+    );
+  });
+
+  it('should only accept progress while ACTIVE or IN_COOLDOWN', () => {
+    expect(Object.values(LimitStatus).filter(acceptsProgress)).toEqual([
+      LimitStatus.ACTIVE,
+      LimitStatus.IN_COOLDOWN,
+    ]);
+  });
+
+  describe('statusAt', () => {
+    it('should activate a FUTURE limit once activeFrom is reached', () => {
+      const future = userLimit({ status: LimitStatus.FUTURE });
+
+      expect(statusAt(future, ACTIVE_FROM - 1)).toBe(LimitStatus.FUTURE);
+      expect(statusAt(future, ACTIVE_FROM)).toBe(LimitStatus.ACTIVE);
+    });
+
+    it('should expire a limit at activeUntil', () => {
+      const limited = userLimit({ activeUntil: ACTIVE_UNTIL });
+
+      expect(statusAt(limited, ACTIVE_UNTIL - 1)).toBe(LimitStatus.ACTIVE);
+      expect(statusAt(limited, ACTIVE_UNTIL)).toBe(LimitStatus.EXPIRED);
+      expect(
+        statusAt(userLimit({ status: LimitStatus.FUTURE, activeUntil: ACTIVE_UNTIL }), ACTIVE_UNTIL)
+      ).toBe(LimitStatus.EXPIRED);
+    });
+
+    it('should end the cooling-off period at cooldownUntil', () => {
+      const coolingOff = userLimit({
+        status: LimitStatus.IN_COOLDOWN,
+        cooldownUntil: ACTIVE_UNTIL,
+      });
+
+      expect(statusAt(coolingOff, ACTIVE_UNTIL - 1)).toBe(LimitStatus.IN_COOLDOWN);
+      expect(statusAt(coolingOff, ACTIVE_UNTIL)).toBe(LimitStatus.ACTIVE);
+      expect(statusAt({ ...coolingOff, pendingCancellation: true }, ACTIVE_UNTIL)).toBe(
+        LimitStatus.CANCELED
+      );
+    });
+
+    it('should keep final statuses', () => {
+      const canceled = userLimit({ status: LimitStatus.CANCELED, activeUntil: ACTIVE_UNTIL });
+
+      expect(statusAt(canceled, ACTIVE_UNTIL)).toBe(LimitStatus.CANCELED);
+    });
+  });
+
+  describe('advanceStatus', () => {
+    it('should apply the transitions that are due', () => {
+      const future = userLimit({ status: LimitStatus.FUTURE });
+
+      expect(advanceStatus(future, ACTIVE_FROM)).toEqual({ ...future, status: LimitStatus.ACTIVE });
+    });
+
+    it('should clear the cooling-off fields once it has ended', () => {
+      const coolingOff = userLimit({
+        status: LimitStatus.IN_COOLDOWN,
+        value: '1500',
+        previousLimitValue: '1000',
+        cooldownUntil: ACTIVE_UNTIL,
+      });
+
+      expect(effectiveLimitValue(coolingOff)).toBe('1000');
+      const advanced = advanceStatus(coolingOff, ACTIVE_UNTIL);
+      expect(advanced).toMatchObject({ status: LimitStatus.ACTIVE, cooldownUntil: undefined });
+      expect(effectiveLimitValue(advanced)).toBe('1500');
+    });
+
+    it('should return the limit unchanged when nothing is due', () => {
+      const active = userLimit({ activeUntil: ACTIVE_UNTIL });
+
+      expect(advanceStatus(active, ACTIVE_FROM)).toBe(active);
+    });
+  });
+});
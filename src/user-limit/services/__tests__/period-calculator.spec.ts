@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { PeriodCalculator, PeriodLimit } from '../period-calculator';
+import { LimitPeriod } from '../../models/user-limit';
+
+const at = (iso: string): number => Date.parse(iso);
+const iso = (epochMs: number | undefined): string | undefined =>
+  epochMs === undefined ? undefined : new Date(epochMs).toISOString();
+
+describe('PeriodCalculator', () => {
+  const calculator = new PeriodCalculator({
+    brandTimeZones: { malta: 'Europe/Malta', toronto: 'America/Toronto' },
+  });
+
+  function limit(period: LimitPeriod, overrides: Partial<PeriodLimit> = {}): PeriodLimit {
+    return { period, brandId: 'brand-123', activeFrom: at('2024-01-10T15:30:00Z'), ...overrides };
+  }
+
+  it('should use the brand time zone and fall back to the default', () => {
+    expect(calculator.timeZoneFor('malta')).toBe('Europe/Malta');
+    expect(calculator.timeZoneFor('brand-123')).toBe('UTC');
+    expect(new PeriodCalculator({ defaultTimeZone: 'Asia/Tokyo' }).timeZoneFor('x')).toBe(
+      'Asia/Tokyo'
+    );
+  });
+
+  describe('calendar periods', () => {
+    it('should reset CALENDAR_DAY at the next local midnight', () => {
+      const next = (brandId: string, time: string): string | undefined =>
+        iso(calculator.nextResetTime(limit(LimitPeriod.CALENDAR_DAY, { brandId }), at(time)));
+
+      expect(next('brand-123', '2024-03-15T13:45:00Z')).toBe('2024-03-16T00:00:00.000Z');
+      expect(next('brand-123', '2024-03-15T00:00:00Z')).toBe('2024-03-16T00:00:00.000Z');
+      expect(next('malta', '2024-01-15T23:30:00Z')).toBe('2024-01-16T23:00:00.000Z');
+    });
+
+    it('should follow daylight saving time transitions', () => {
+      const next = (time: string): string | undefined =>
+        iso(
+          calculator.nextResetTime(limit(LimitPeriod.CALENDAR_DAY, { brandId: 'malta' }), at(time))
+        );
+
+      expect(next('2024-03-30T12:00:00Z')).toBe('2024-03-30T23:00:00.000Z');
+      expect(next('2024-03-31T12:00:00Z')).toBe('2024-03-31T22:00:00.000Z');
+    });
+
+    it('should reset CALENDAR_WEEK on the next Monday', () => {
+      const next = (time: string): string | undefined =>
+        iso(calculator.nextResetTime(limit(LimitPeriod.CALENDAR_WEEK), at(time)));
+
+      expect(next('2024-01-15T10:00:00Z')).toBe('2024-01-22T00:00:00.000Z');
+      expect(next('2024-01-21T23:59:59Z')).toBe('2024-01-22T00:00:00.000Z');
+      expect(next('2024-01-17T10:00:00Z')).toBe('2024-01-22T00:00:00.000Z');
+    });
+
+    it('should reset CALENDAR_MONTH on the 1st of the next month', () => {
+      expect(
+        iso(calculator.nextResetTime(limit(LimitPeriod.CALENDAR_MONTH), at('2024-12-15T00:00:00Z')))
+      ).toBe('2025-01-01T00:00:00.000Z');
+      expect(
+        iso(
+          calculator.nextResetTime(
+            limit(LimitPeriod.CALENDAR_MONTH, { brandId: 'toronto' }),
+            at('2024-01-31T12:00:00Z')
+          )
+        )
+      ).toBe('2024-02-01T05:00:00.000Z');
+    });
+  });
+
+  describe('rolling periods', () => {
+    it('should reset DAY one day after the last boundary since activeFrom', () => {
+      const daily = limit(LimitPeriod.DAY);
+
+      expect(iso(calculator.nextResetTime(daily, at('2024-01-12T16:00:00Z')))).toBe(
+        '2024-01-13T15:30:00.000Z'
+      );
+      expect(iso(calculator.nextResetTime(daily, at('2024-01-12T15:30:00Z')))).toBe(
+        '2024-01-13T15:30:00.000Z'
+      );
+    });
+
+    it('should keep the local time of day across daylight saving time transitions', () => {
+      const daily = limit(LimitPeriod.DAY, {
+        brandId: 'malta',
+        activeFrom: at('2024-03-29T14:30:00Z'),
+      });
+
+      expect(iso(calculator.nextResetTime(daily, at('2024-03-31T12:00:00Z')))).toBe(
+        '2024-03-31T13:30:00.000Z'
+      );
+    });
+
+    it('should reset WEEK every seven days from activeFrom', () => {
+      const weekly = limit(LimitPeriod.WEEK, { activeFrom: at('2024-01-03T08:00:00Z') });
+
+      expect(iso(calculator.nextResetTime(weekly, at('2024-02-01T00:00:00Z')))).toBe(
+        '2024-02-07T08:00:00.000Z'
+      );
+    });
+
+    it('should clamp MONTH to the last day of shorter months', () => {
+      const monthly = limit(LimitPeriod.MONTH, { activeFrom: at('2020-01-31T00:00:00Z') });
+
+      expect(iso(calculator.nextResetTime(monthly, at('2024-02-10T00:00:00Z')))).toBe(
+        '2024-02-29T00:00:00.000Z'
+      );
+      expect(iso(calculator.nextResetTime(monthly, at('2024-03-05T00:00:00Z')))).toBe(
+        '2024-03-31T00:00:00.000Z'
+      );
+    });
+
+    it('should count the first period from activeFrom for limits that are not active yet', () => {
+      const daily = limit(LimitPeriod.DAY, { activeFrom: at('2024-06-01T00:00:00Z') });
+
+      expect(iso(calculator.nextResetTime(daily, at('2024-05-01T00:00:00Z')))).toBe(
+        '2024-06-02T00:00:00.000Z'
+      );
+    });
+  });
+
+  it('should never reset INDEFINITE and INSTANCE limits', () => {
+    const time = at('2024-01-12T16:00:00Z');
+
+    expect(calculator.nextResetTime(limit(LimitPeriod.INDEFINITE), time)).toBeUndefined();
+    expect(calculator.nextResetTime(limit(LimitPeriod.INSTANCE), time)).toBeUndefined();
+  });
+});
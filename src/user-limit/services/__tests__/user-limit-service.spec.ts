@@ -1,8 +1,125 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { UserLimitService } from '../user-limit-service';
+import { PeriodCalculator } from '../period-calculator';
 import { IUserLimitRepository } from '../../repositories/user-limit-repository';
-import { EventType } from '../../models/events';
+import {
+  EventType,
+  UserLimitCanceledEvent,
+  UserLimitChangedEvent,
+  UserLimitChangeSourceAddedEvent,
+  UserLimitCreatedEvent,
+  UserLimitEvent,
+  UserLimitProgressChangedEvent,
+  UserLimitResetEvent,
+} from '../../models/events';
 import { UserLimit, LimitStatus, LimitType, LimitPeriod } from '../../models/user-limit';
+import {
+  DuplicateEventError,
+  InvalidAmountError,
+  InvalidStatusTransitionError,
+  NoMatchingUserLimitError,
+  StaleEventError,
+  UserLimitAlreadyExistsError,
+  UserLimitExceededError,
+  UserLimitNotActiveError,
+  UserLimitVersionConflictError,
+} from '../../../types/errors';
+
+const TIMESTAMP = '2024-01-01T00:00:00.000Z';
+
+function limitCreatedEvent(overrides: Partial<UserLimitCreatedEvent> = {}): UserLimitCreatedEvent {
+  return {
+    eventId: 'event-created',
+    eventType: EventType.USER_LIMIT_CREATED,
+    timestamp: TIMESTAMP,
+    userId: 'user-123',
+    userLimitId: 'limit-123',
+    brandId: 'brand-123',
+    type: LimitType.DEPOSIT,
+    period: LimitPeriod.DAY,
+    value: '1000',
+    currencyCode: 'USD',
+    status: LimitStatus.ACTIVE,
+    activeFrom: 1234567890,
+    ...overrides,
+  };
+}
+
+function progressChangedEvent(
+  overrides: Partial<UserLimitProgressChangedEvent> = {}
+): UserLimitProgressChangedEvent {
+  return {
+    eventId: 'event-progress',
+    eventType: EventType.USER_LIMIT_PROGRESS_CHANGED,
+    timestamp: TIMESTAMP,
+    userId: 'user-123',
+    userLimitId: 'limit-123',
+    brandId: 'brand-123',
+    currencyCode: 'USD',
+    amount: '500',
+    ...overrides,
+  };
+}
+
+function limitResetEvent(overrides: Partial<UserLimitResetEvent> = {}): UserLimitResetEvent {
+  return {
+    eventId: 'event-reset',
+    eventType: EventType.USER_LIMIT_RESET,
+    timestamp: TIMESTAMP,
+    userId: 'user-123',
+    userLimitId: 'limit-123',
+    brandId: 'brand-123',
+    currencyCode: 'USD',
+    type: LimitType.DEPOSIT,
+    period: LimitPeriod.DAY,
+    ...overrides,
+  };
+}
+
+function changeSourceAddedEvent(
+  overrides: Partial<UserLimitChangeSourceAddedEvent> = {}
+): UserLimitChangeSourceAddedEvent {
+  return {
+    eventId: 'event-source-1',
+    eventType: EventType.USER_LIMIT_CHANGE_SOURCE_ADDED,
+    timestamp: TIMESTAMP,
+    userId: 'user-123',
+    brandId: 'brand-123',
+    sourceId: 'payment-1',
+    amount: '200',
+    type: LimitType.DEPOSIT,
+    period: LimitPeriod.DAY,
+    ...overrides,
+  };
+}
+
+function limitChangedEvent(overrides: Partial<UserLimitChangedEvent> = {}): UserLimitChangedEvent {
+  return {
+    eventId: 'event-changed',
+    eventType: EventType.USER_LIMIT_CHANGED,
+    timestamp: TIMESTAMP,
+    userId: 'user-123',
+    userLimitId: 'limit-123',
+    brandId: 'brand-123',
+    currencyCode: 'USD',
+    value: '1500',
+    ...overrides,
+  };
+}
+
+function limitCanceledEvent(
+  overrides: Partial<UserLimitCanceledEvent> = {}
+): UserLimitCanceledEvent {
+  return {
+    eventId: 'event-canceled',
+    eventType: EventType.USER_LIMIT_CANCELED,
+    timestamp: TIMESTAMP,
+    userId: 'user-123',
+    userLimitId: 'limit-123',
+    brandId: 'brand-123',
+    ...overrides,
+  };
+}
 
 describe('UserLimitService', () => {
   let service: UserLimitService;
@@ -21,24 +138,15 @@ describe('UserLimitService', () => {
 
   describe('processEvent - routing', () => {
     it('should route to correct handler based on eventType', async () => {
-      const createEvent = {
-        eventType: EventType.USER_LIMIT_CREATED,
-        userId: 'user-123',
-        userLimitId: 'limit-123',
-        type: LimitType.DEPOSIT,
-        period: LimitPeriod.DAY,
-        value: '1000',
-      };
-
-      await service.processEvent(createEvent);
+      await service.processEvent(limitCreatedEvent());
       expect(mockRepository.save).toHaveBeenCalled();
     });
 
     it('should throw error for unknown event type', async () => {
       const invalidEvent = {
-        eventType: 'INVALID_EVENT' as EventType,
-        userId: 'user-123',
-      };
+        ...limitCreatedEvent(),
+        eventType: 'INVALID_EVENT',
+      } as unknown as UserLimitEvent;
 
       await expect(service.processEvent(invalidEvent)).rejects.toThrow('Unknown event type');
     });
@@ -46,20 +154,7 @@ describe('UserLimitService', () => {
 
   describe('handleLimitCreated', () => {
     it('should create user limit with progress=0', async () => {
-      const event = {
-        eventType: EventType.USER_LIMIT_CREATED,
-        userId: 'user-123',
-        userLimitId: 'limit-123',
-        brandId: 'brand-123',
-        type: LimitType.DEPOSIT,
-        period: LimitPeriod.DAY,
-        value: '1000',
-        currencyCode: 'USD',
-        status: LimitStatus.ACTIVE,
-        activeFrom: 1234567890,
-      };
-
-      await service.processEvent(event);
+      await service.processEvent(limitCreatedEvent());
 
       expect(mockRepository.save).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -70,19 +165,34 @@ describe('UserLimitService', () => {
       );
     });
 
-    it('should set createdAt timestamp', async () => {
-      const beforeTime = Date.now();
-
-      const event = {
-        eventType: EventType.USER_LIMIT_CREATED,
-        userId: 'user-123',
+    it('should acknowledge a replayed create of a limit it already created', async () => {
+      const created = limitCreatedEvent();
+      vi.mocked(mockRepository.save).mockRejectedValue(
+        new UserLimitAlreadyExistsError('limit-123')
+      );
+      vi.mocked(mockRepository.findById).mockResolvedValue({
         userLimitId: 'limit-123',
+        userId: 'user-123',
+        brandId: 'brand-123',
         type: LimitType.DEPOSIT,
         period: LimitPeriod.DAY,
         value: '1000',
-      };
+        currencyCode: 'USD',
+        status: LimitStatus.ACTIVE,
+        activeFrom: 1234567890,
+        createdByEventId: 'event-created',
+      });
 
-      await service.processEvent(event);
+      await expect(service.processEvent(created)).rejects.toThrow(DuplicateEventError);
+      await expect(
+        service.processEvent(limitCreatedEvent({ eventId: 'event-other' }))
+      ).rejects.toThrow(UserLimitAlreadyExistsError);
+    });
+
+    it('should set createdAt timestamp', async () => {
+      const beforeTime = Date.now();
+
+      await service.processEvent(limitCreatedEvent());
 
       const afterTime = Date.now();
 
@@ -113,24 +223,80 @@ describe('UserLimitService', () => {
       createdAt: 1234567890,
     };
 
-    it('should update progress', async () => {
+    it('should add the amount to the stored progress', async () => {
       vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
 
-      const event = {
-        eventType: EventType.USER_LIMIT_PROGRESS_CHANGED,
-        userId: 'user-123',
-        userLimitId: 'limit-123',
-        amount: '500',
-      };
-
-      await service.processEvent(event);
+      await service.processEvent(progressChangedEvent({ amount: '500' }));
 
       expect(mockRepository.update).toHaveBeenCalledWith(
         expect.objectContaining({
           userLimitId: 'limit-123',
-          progress: '500',
-        })
+          progress: '600.00',
+        }),
+        0
+      );
+    });
+
+    it('should add decimal amounts exactly', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue({ ...existingLimit, progress: '0.1' });
+
+      await service.processEvent(progressChangedEvent({ amount: '0.2' }));
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ progress: '0.30' }),
+        0
+      );
+    });
+
+    it("should respect the currency's minor units", async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue({
+        ...existingLimit,
+        currencyCode: 'JPY',
+        progress: '100',
+      });
+
+      await service.processEvent(progressChangedEvent({ amount: '250' }));
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ progress: '350' }),
+        0
+      );
+    });
+
+    it('should reject amounts with more decimals than the currency allows', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
+
+      await expect(service.processEvent(progressChangedEvent({ amount: '0.001' }))).rejects.toThrow(
+        InvalidAmountError
       );
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should accept progress that reaches the limit exactly', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue({
+        ...existingLimit,
+        value: '1000.00',
+        progress: '999.99',
+      });
+
+      await service.processEvent(progressChangedEvent({ amount: '0.01', remainingAmount: '0.00' }));
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ progress: '1000.00' }),
+        0
+      );
+    });
+
+    it('should reject progress beyond the limit', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue({
+        ...existingLimit,
+        progress: '999.99',
+      });
+
+      await expect(service.processEvent(progressChangedEvent({ amount: '0.02' }))).rejects.toThrow(
+        UserLimitExceededError
+      );
+      expect(mockRepository.update).not.toHaveBeenCalled();
     });
   });
 
@@ -152,19 +318,704 @@ describe('UserLimitService', () => {
     it('should reset progress to 0', async () => {
       vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
 
-      const event = {
-        eventType: EventType.USER_LIMIT_RESET,
-        userId: 'user-123',
-        userLimitId: 'limit-123',
-      };
+      await service.processEvent(limitResetEvent());
 
-      await service.processEvent(event);
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          progress: '0',
+        }),
+        0
+      );
+    });
+  });
+
+  describe('period resets', () => {
+    const existingLimit: UserLimit = {
+      userLimitId: 'limit-123',
+      userId: 'user-123',
+      brandId: 'brand-123',
+      type: LimitType.DEPOSIT,
+      period: LimitPeriod.CALENDAR_DAY,
+      value: '1000',
+      currencyCode: 'USD',
+      status: LimitStatus.ACTIVE,
+      activeFrom: Date.parse('2023-12-01T00:00:00.000Z'),
+      progress: '800',
+      createdAt: 1234567890,
+      nextResetTime: Date.parse('2024-01-01T00:00:00.000Z'),
+    };
+
+    beforeEach(() => {
+      service = new UserLimitService(mockRepository, {
+        periodCalculator: new PeriodCalculator({ brandTimeZones: { 'brand-123': 'Europe/Malta' } }),
+      });
+    });
+
+    it('should compute nextResetTime in the brand time zone when the producer sends none', async () => {
+      await service.processEvent(
+        limitCreatedEvent({
+          period: LimitPeriod.CALENDAR_DAY,
+          timestamp: '2024-01-15T10:00:00.000Z',
+          activeFrom: Date.parse('2024-01-15T10:00:00.000Z'),
+        })
+      );
+
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ nextResetTime: Date.parse('2024-01-15T23:00:00.000Z') })
+      );
+    });
+
+    it("should prefer the producer's nextResetTime", async () => {
+      await service.processEvent(limitCreatedEvent({ nextResetTime: 42 }));
+
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ nextResetTime: 42 })
+      );
+    });
+
+    it('should compute the following boundary on a reset without nextResetTime', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
+
+      await service.processEvent(limitResetEvent({ timestamp: '2024-01-01T00:00:00.000Z' }));
 
       expect(mockRepository.update).toHaveBeenCalledWith(
         expect.objectContaining({
           progress: '0',
+          nextResetTime: Date.parse('2024-01-01T23:00:00.000Z'),
+        }),
+        0
+      );
+    });
+
+    it('should apply a missed reset before adding progress', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
+
+      await service.processEvent(
+        progressChangedEvent({ amount: '300', timestamp: '2024-01-03T12:00:00.000Z' })
+      );
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          progress: '300.00',
+          nextResetTime: Date.parse('2024-01-03T23:00:00.000Z'),
+        }),
+        0
+      );
+    });
+
+    it('should keep the progress of events before the reset boundary', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
+
+      await service.processEvent(
+        progressChangedEvent({ amount: '100', timestamp: '2023-12-31T22:59:59.000Z' })
+      );
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ progress: '900.00', nextResetTime: existingLimit.nextResetTime }),
+        0
+      );
+    });
+  });
+
+  describe('status lifecycle', () => {
+    const ACTIVE_FROM = Date.parse('2024-01-01T12:00:00.000Z');
+    const futureLimit: UserLimit = {
+      userLimitId: 'limit-123',
+      userId: 'user-123',
+      brandId: 'brand-123',
+      type: LimitType.DEPOSIT,
+      period: LimitPeriod.INDEFINITE,
+      value: '1000',
+      currencyCode: 'USD',
+      status: LimitStatus.FUTURE,
+      activeFrom: ACTIVE_FROM,
+      progress: '0',
+      activeUntil: Date.parse('2024-02-01T00:00:00.000Z'),
+    };
+
+    it('should store a FUTURE limit as ACTIVE when activeFrom has passed', async () => {
+      await service.processEvent(
+        limitCreatedEvent({ status: LimitStatus.FUTURE, activeFrom: Date.parse(TIMESTAMP) })
+      );
+      await service.processEvent(
+        limitCreatedEvent({ status: LimitStatus.FUTURE, activeFrom: ACTIVE_FROM })
+      );
+
+      const saved = vi.mocked(mockRepository.save).mock.calls.map(([limit]) => limit.status);
+      expect(saved).toEqual([LimitStatus.ACTIVE, LimitStatus.FUTURE]);
+    });
+
+    it('should reject progress before the limit becomes active', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(futureLimit);
+
+      await expect(service.processEvent(progressChangedEvent())).rejects.toThrow(
+        UserLimitNotActiveError
+      );
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should activate the limit with the first progress after activeFrom', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(futureLimit);
+
+      await service.processEvent(progressChangedEvent({ timestamp: '2024-01-01T12:00:00.000Z' }));
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: LimitStatus.ACTIVE, progress: '500.00' }),
+        0
+      );
+    });
+
+    it('should reject progress once the limit has expired', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(futureLimit);
+
+      await expect(
+        service.processEvent(progressChangedEvent({ timestamp: '2024-02-01T00:00:00.000Z' }))
+      ).rejects.toThrow('UserLimit limit-123 is EXPIRED and does not accept progress');
+    });
+
+    it('should reject progress on canceled limits', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue({
+        ...futureLimit,
+        status: LimitStatus.CANCELED,
+      });
+
+      await expect(
+        service.processEvent(progressChangedEvent({ timestamp: '2024-01-15T00:00:00.000Z' }))
+      ).rejects.toThrow(UserLimitNotActiveError);
+    });
+
+    it('should keep the status on reset', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue({
+        ...futureLimit,
+        status: LimitStatus.IN_COOLDOWN,
+      });
+
+      await service.processEvent(limitResetEvent({ timestamp: '2024-01-15T00:00:00.000Z' }));
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: LimitStatus.IN_COOLDOWN, progress: '0' }),
+        0
+      );
+    });
+  });
+
+  describe('limit changes and cancellations', () => {
+    const COOLING_OFF_MS = 60 * 60 * 1000;
+    const CHANGED_AT = Date.parse(TIMESTAMP);
+    const existingLimit: UserLimit = {
+      userLimitId: 'limit-123',
+      userId: 'user-123',
+      brandId: 'brand-123',
+      type: LimitType.DEPOSIT,
+      period: LimitPeriod.INDEFINITE,
+      value: '1000',
+      currencyCode: 'USD',
+      status: LimitStatus.ACTIVE,
+      activeFrom: 1234567890,
+      progress: '900',
+    };
+    const coolingOff: UserLimit = {
+      ...existingLimit,
+      status: LimitStatus.IN_COOLDOWN,
+      value: '1500',
+      previousLimitValue: '1000',
+      cooldownUntil: CHANGED_AT + COOLING_OFF_MS,
+    };
+
+    beforeEach(() => {
+      service = new UserLimitService(mockRepository, { coolingOffPeriodMs: COOLING_OFF_MS });
+    });
+
+    it('should apply a decrease immediately', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
+
+      await service.processEvent(limitChangedEvent({ value: '950' }));
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: LimitStatus.ACTIVE,
+          value: '950',
+          previousLimitValue: '1000',
+        }),
+        0
+      );
+    });
+
+    it('should cool off an increase while the previous value still applies', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
+
+      await service.processEvent(limitChangedEvent({ value: '1500' }));
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: LimitStatus.IN_COOLDOWN,
+          value: '1500',
+          previousLimitValue: '1000',
+          cooldownUntil: CHANGED_AT + COOLING_OFF_MS,
+        }),
+        0
+      );
+
+      vi.mocked(mockRepository.findById).mockResolvedValue(coolingOff);
+      await expect(
+        service.processEvent(progressChangedEvent({ amount: '200', timestamp: TIMESTAMP }))
+      ).rejects.toThrow('Progress 1100.00 exceeds limit 1000.00');
+    });
+
+    it('should apply the increase once the cooling-off period has ended', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(coolingOff);
+
+      await service.processEvent(
+        progressChangedEvent({
+          amount: '200',
+          timestamp: new Date(CHANGED_AT + COOLING_OFF_MS).toISOString(),
         })
       );
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: LimitStatus.ACTIVE,
+          value: '1500',
+          progress: '1100.00',
+          cooldownUntil: undefined,
+        }),
+        0
+      );
+    });
+
+    it('should let a decrease withdraw a pending increase', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(coolingOff);
+
+      await service.processEvent(limitChangedEvent({ value: '1000' }));
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: LimitStatus.ACTIVE,
+          value: '1000',
+          previousLimitValue: '1000',
+          cooldownUntil: undefined,
+        }),
+        0
+      );
+    });
+
+    it('should cancel a limit only after the cooling-off period', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
+
+      await service.processEvent(limitCanceledEvent());
+
+      const [pending] = vi.mocked(mockRepository.update).mock.calls[0];
+      expect(pending).toMatchObject({
+        status: LimitStatus.IN_COOLDOWN,
+        previousLimitValue: '1000',
+        cooldownUntil: CHANGED_AT + COOLING_OFF_MS,
+        pendingCancellation: true,
+      });
+
+      vi.mocked(mockRepository.findById).mockResolvedValue(pending);
+      await expect(
+        service.processEvent(
+          progressChangedEvent({ timestamp: new Date(CHANGED_AT + COOLING_OFF_MS).toISOString() })
+        )
+      ).rejects.toThrow('UserLimit limit-123 is CANCELED and does not accept progress');
+    });
+
+    it('should keep a pending cancellation when the limit is changed', async () => {
+      const pendingCancellation: UserLimit = {
+        ...existingLimit,
+        status: LimitStatus.IN_COOLDOWN,
+        previousLimitValue: '1000',
+        cooldownUntil: CHANGED_AT + COOLING_OFF_MS,
+        pendingCancellation: true,
+      };
+      vi.mocked(mockRepository.findById).mockResolvedValue(pendingCancellation);
+
+      await service.processEvent(limitChangedEvent({ value: '950' }));
+      await service.processEvent(limitChangedEvent({ value: '1500' }));
+
+      const [[decreased], [increased]] = vi.mocked(mockRepository.update).mock.calls;
+      const kept = {
+        status: LimitStatus.IN_COOLDOWN,
+        cooldownUntil: CHANGED_AT + COOLING_OFF_MS,
+        pendingCancellation: true,
+      };
+      expect(decreased).toMatchObject({ ...kept, value: '950', previousLimitValue: '950' });
+      expect(increased).toMatchObject({ ...kept, value: '1500', previousLimitValue: '1000' });
+
+      vi.mocked(mockRepository.findById).mockResolvedValue(decreased);
+      await expect(
+        service.processEvent(progressChangedEvent({ amount: '100', timestamp: TIMESTAMP }))
+      ).rejects.toThrow('Progress 1000.00 exceeds limit 950.00');
+    });
+
+    it('should cancel a FUTURE limit immediately', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue({
+        ...existingLimit,
+        status: LimitStatus.FUTURE,
+        activeFrom: CHANGED_AT + 1,
+      });
+
+      await service.processEvent(limitCanceledEvent());
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: LimitStatus.CANCELED }),
+        0
+      );
+    });
+
+    it('should reject changes to canceled limits', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue({
+        ...existingLimit,
+        status: LimitStatus.CANCELED,
+      });
+
+      await expect(service.processEvent(limitChangedEvent({ value: '500' }))).rejects.toThrow(
+        InvalidStatusTransitionError
+      );
+      await expect(service.processEvent(limitCanceledEvent())).rejects.toThrow(
+        InvalidStatusTransitionError
+      );
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stale event protection', () => {
+    const existingLimit: UserLimit = {
+      userLimitId: 'limit-123',
+      userId: 'user-123',
+      brandId: 'brand-123',
+      type: LimitType.DEPOSIT,
+      period: LimitPeriod.DAY,
+      value: '1000',
+      currencyCode: 'USD',
+      status: LimitStatus.ACTIVE,
+      activeFrom: 1234567890,
+      progress: '300',
+      createdAt: 1234567890,
+      lastSequenceNumber: 10,
+      lastEventTimestamp: Date.parse('2024-01-01T12:00:00.000Z'),
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
+    });
+
+    it('should record the aggregate position when a limit is created', async () => {
+      await service.processEvent(
+        limitCreatedEvent({ sequenceNumber: 3, timestamp: '2024-01-01T10:00:00.000Z' })
+      );
+
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lastSequenceNumber: 3,
+          lastEventTimestamp: Date.parse('2024-01-01T10:00:00.000Z'),
+        })
+      );
+    });
+
+    it('should ignore progress events with an older sequence number', async () => {
+      const event = progressChangedEvent({ amount: '50', sequenceNumber: 9 });
+
+      await expect(service.processEvent(event)).rejects.toThrow(StaleEventError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore an event replayed with the same sequence number', async () => {
+      const event = limitResetEvent({ sequenceNumber: 10 });
+
+      await expect(service.processEvent(event)).rejects.toThrow(DuplicateEventError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore an older event whose eventId was already applied', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue({
+        ...existingLimit,
+        recentEventIds: ['event-progress', 'event-later'],
+      });
+      const event = progressChangedEvent({ amount: '50', sequenceNumber: 9 });
+
+      await expect(service.processEvent(event)).rejects.toThrow(DuplicateEventError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should apply a progress event retried after a transient failure', async () => {
+      const limits: UserLimit[] = [existingLimit];
+      vi.mocked(mockRepository.findById).mockImplementation(() =>
+        Promise.resolve(limits[limits.length - 1])
+      );
+      vi.mocked(mockRepository.update)
+        .mockRejectedValueOnce(Object.assign(new Error('Timed out'), { name: 'TimeoutError' }))
+        .mockImplementation((limit) => {
+          limits.push(limit);
+          return Promise.resolve();
+        });
+      const event = progressChangedEvent({ amount: '50', sequenceNumber: 11 });
+
+      await expect(service.processEvent(event)).rejects.toThrow('Timed out');
+      await service.processEvent(event);
+      await expect(service.processEvent(event)).rejects.toThrow(DuplicateEventError);
+
+      expect(limits).toHaveLength(2);
+      expect(limits[1]).toMatchObject({
+        progress: '350.00',
+        lastSequenceNumber: 11,
+        recentEventIds: ['event-progress'],
+      });
+    });
+
+    it('should fall back to the event timestamp when there is no sequence number', async () => {
+      const event = progressChangedEvent({
+        amount: '50',
+        timestamp: '2024-01-01T11:59:59.000Z',
+      });
+
+      await expect(service.processEvent(event)).rejects.toThrow(StaleEventError);
+    });
+
+    it('should apply newer events and advance the recorded position', async () => {
+      const event = progressChangedEvent({
+        amount: '50',
+        sequenceNumber: 14,
+        timestamp: '2024-01-01T12:30:00.000Z',
+      });
+
+      await service.processEvent(event);
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lastSequenceNumber: 14,
+          lastEventTimestamp: Date.parse('2024-01-01T12:30:00.000Z'),
+        }),
+        0
+      );
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    const existingLimit: UserLimit = {
+      userLimitId: 'limit-123',
+      userId: 'user-123',
+      brandId: 'brand-123',
+      type: LimitType.DEPOSIT,
+      period: LimitPeriod.DAY,
+      value: '1000',
+      currencyCode: 'USD',
+      status: LimitStatus.ACTIVE,
+      activeFrom: 1234567890,
+      progress: '100',
+      version: 7,
+    };
+
+    const progressEvent = progressChangedEvent({ amount: '500' });
+
+    it('should create limits at version 1', async () => {
+      await service.processEvent(limitCreatedEvent());
+
+      expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({ version: 1 }));
+    });
+
+    it('should update with the version that was read', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
+
+      await service.processEvent(progressEvent);
+
+      expect(mockRepository.update).toHaveBeenCalledWith(expect.anything(), 7);
+    });
+
+    it('should re-read and retry after a version conflict', async () => {
+      vi.mocked(mockRepository.findById)
+        .mockResolvedValueOnce(existingLimit)
+        .mockResolvedValueOnce({ ...existingLimit, version: 8, lastSequenceNumber: 3 });
+      vi.mocked(mockRepository.update).mockRejectedValueOnce(
+        new UserLimitVersionConflictError('limit-123', 7, 8)
+      );
+
+      await service.processEvent(progressEvent);
+
+      expect(mockRepository.findById).toHaveBeenCalledTimes(2);
+      expect(mockRepository.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({ lastSequenceNumber: 3 }),
+        8
+      );
+    });
+
+    it('should give up after the configured number of attempts', async () => {
+      service = new UserLimitService(mockRepository, { maxUpdateAttempts: 2 });
+      vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
+      vi.mocked(mockRepository.update).mockRejectedValue(
+        new UserLimitVersionConflictError('limit-123', 7, 8)
+      );
+
+      await expect(service.processEvent(progressEvent)).rejects.toThrow(
+        UserLimitVersionConflictError
+      );
+      expect(mockRepository.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry other repository errors', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(existingLimit);
+      vi.mocked(mockRepository.update).mockRejectedValue(new Error('Throttled'));
+
+      await expect(service.processEvent(progressEvent)).rejects.toThrow('Throttled');
+      expect(mockRepository.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('handleChangeSourceAdded', () => {
+    const NOW = 1_700_000_000_000;
+
+    const dailyLimit: UserLimit = {
+      userLimitId: 'limit-day',
+      userId: 'user-123',
+      brandId: 'brand-123',
+      type: LimitType.DEPOSIT,
+      period: LimitPeriod.DAY,
+      value: '1000',
+      currencyCode: 'SEK',
+      status: LimitStatus.ACTIVE,
+      activeFrom: 1234567890,
+      progress: '200.00',
+      version: 2,
+    };
+
+    const sourceEvent = changeSourceAddedEvent({
+      expiresAt: NOW + 60_000,
+      timestamp: new Date(NOW).toISOString(),
+    });
+
+    beforeEach(() => {
+      service = new UserLimitService(mockRepository, { now: () => NOW });
+    });
+
+    it('should record the source on the limit with matching type and period', async () => {
+      const weeklyLimit = { ...dailyLimit, userLimitId: 'limit-week', period: LimitPeriod.WEEK };
+      vi.mocked(mockRepository.findByUserId).mockResolvedValue([dailyLimit, weeklyLimit]);
+      vi.mocked(mockRepository.findById).mockResolvedValue(dailyLimit);
+
+      await service.processEvent(sourceEvent);
+
+      expect(mockRepository.findById).toHaveBeenCalledWith('limit-day');
+      expect(mockRepository.update).toHaveBeenCalledTimes(1);
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userLimitId: 'limit-day',
+          changeSources: [
+            {
+              sourceId: 'payment-1',
+              amount: '200.00',
+              addedAt: NOW,
+              expiresAt: NOW + 60_000,
+              eventId: 'event-source-1',
+            },
+          ],
+        }),
+        2
+      );
+    });
+
+    it('should drop expired sources when recording a new one', async () => {
+      const limit: UserLimit = {
+        ...dailyLimit,
+        changeSources: [
+          { sourceId: 'old', amount: '50.00', addedAt: NOW - 2000, expiresAt: NOW - 1000 },
+          { sourceId: 'current', amount: '150.00', addedAt: NOW - 2000, expiresAt: NOW + 1000 },
+        ],
+      };
+      vi.mocked(mockRepository.findByUserId).mockResolvedValue([limit]);
+      vi.mocked(mockRepository.findById).mockResolvedValue(limit);
+
+      await service.processEvent(sourceEvent);
+
+      const [updated] = vi.mocked(mockRepository.update).mock.calls[0];
+      expect(updated.changeSources?.map((source) => source.sourceId)).toEqual([
+        'current',
+        'payment-1',
+      ]);
+    });
+
+    it('should replace an earlier source with the same sourceId', async () => {
+      const limit: UserLimit = {
+        ...dailyLimit,
+        changeSources: [
+          { sourceId: 'payment-1', amount: '150.00', addedAt: NOW - 2000, eventId: 'event-0' },
+        ],
+      };
+      vi.mocked(mockRepository.findByUserId).mockResolvedValue([limit]);
+      vi.mocked(mockRepository.findById).mockResolvedValue(limit);
+
+      await service.processEvent(sourceEvent);
+
+      const [updated] = vi.mocked(mockRepository.update).mock.calls[0];
+      expect(updated.changeSources).toEqual([
+        expect.objectContaining({ sourceId: 'payment-1', amount: '200.00' }),
+      ]);
+    });
+
+    it('should only update the remaining limits when retried after a partial failure', async () => {
+      const limits = new Map<string, UserLimit>([
+        ['limit-day', dailyLimit],
+        ['limit-day-2', { ...dailyLimit, userLimitId: 'limit-day-2' }],
+      ]);
+      const store = (limit: UserLimit): Promise<void> => {
+        limits.set(limit.userLimitId, limit);
+        return Promise.resolve();
+      };
+      const event = { ...sourceEvent, sequenceNumber: 5 };
+      vi.mocked(mockRepository.findByUserId).mockImplementation(() =>
+        Promise.resolve([...limits.values()])
+      );
+      vi.mocked(mockRepository.findById).mockImplementation((userLimitId) =>
+        Promise.resolve(limits.get(userLimitId) ?? null)
+      );
+      vi.mocked(mockRepository.update)
+        .mockImplementation(store)
+        .mockImplementationOnce(store)
+        .mockRejectedValueOnce(new Error('Throttled'));
+
+      await expect(service.processEvent(event)).rejects.toThrow('Throttled');
+      await service.processEvent(event);
+
+      expect(mockRepository.update).toHaveBeenCalledTimes(3);
+      for (const limit of limits.values()) {
+        expect(limit).toMatchObject({
+          changeSources: [expect.objectContaining({ eventId: 'event-source-1' })],
+          lastSequenceNumber: 5,
+        });
+      }
+    });
+
+    it('should ignore canceled and expired limits', async () => {
+      vi.mocked(mockRepository.findByUserId).mockResolvedValue([
+        { ...dailyLimit, status: LimitStatus.CANCELED },
+        { ...dailyLimit, activeUntil: NOW },
+      ]);
+
+      await expect(service.processEvent(sourceEvent)).rejects.toThrow(NoMatchingUserLimitError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should explain progress with the sources that have not expired', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue({
+        ...dailyLimit,
+        changeSources: [
+          { sourceId: 'old', amount: '50.00', addedAt: NOW - 2000, expiresAt: NOW },
+          { sourceId: 'a', amount: '120.50', addedAt: NOW - 2000, expiresAt: NOW + 1000 },
+          { sourceId: 'b', amount: '79.50', addedAt: NOW - 1000 },
+        ],
+      });
+
+      const explanation = await service.explainProgress('limit-day');
+
+      expect(explanation).toEqual({
+        userLimitId: 'limit-day',
+        currencyCode: 'SEK',
+        progress: '200.00',
+        sources: [
+          expect.objectContaining({ sourceId: 'a' }),
+          expect.objectContaining({ sourceId: 'b' }),
+        ],
+        sourcesTotal: '200.00',
+      });
     });
   });
 });
@@ -0,0 +1,114 @@
+import { LimitStatus, UserLimit } from '../models/user-limit';
+import { InvalidStatusTransitionError } from '../../types/errors';
+import { createChildLogger } from '../../utils/logger';
+
+const logger = createChildLogger({ service: 'limit-lifecycle' });
+
+/**
+ * Statuses a limit may move to from each status. FUTURE becomes ACTIVE at `activeFrom`,
+ * ACTIVE and IN_COOLDOWN alternate while a limit change cools off, and every limit can
+ * be canceled or expire at `activeUntil`. CANCELED and EXPIRED are final.
+ */
+export const ALLOWED_TRANSITIONS: Readonly<Record<LimitStatus, readonly LimitStatus[]>> = {
+  [LimitStatus.FUTURE]: [LimitStatus.ACTIVE, LimitStatus.CANCELED, LimitStatus.EXPIRED],
+  [LimitStatus.ACTIVE]: [LimitStatus.IN_COOLDOWN, LimitStatus.CANCELED, LimitStatus.EXPIRED],
+  [LimitStatus.IN_COOLDOWN]: [LimitStatus.ACTIVE, LimitStatus.CANCELED, LimitStatus.EXPIRED],
+  [LimitStatus.CANCELED]: [],
+  [LimitStatus.EXPIRED]: [],
+};
+
+/** Statuses in which progress counts towards the limit */
+const PROGRESS_STATUSES: readonly LimitStatus[] = [LimitStatus.ACTIVE, LimitStatus.IN_COOLDOWN];
+
+export function canTransition(from: LimitStatus, to: LimitStatus): boolean {
+  return from === to || ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+export function isFinal(status: LimitStatus): boolean {
+  return ALLOWED_TRANSITIONS[status].length === 0;
+}
+
+export function acceptsProgress(status: LimitStatus): boolean {
+  return PROGRESS_STATUSES.includes(status);
+}
+
+/**
+ * Moves `limit` to `to`, throwing InvalidStatusTransitionError for transitions the state
+ * machine does not allow. Staying in the same status is a no-op.
+ */
+export function transition(limit: UserLimit, to: LimitStatus, reason: string): UserLimit {
+  if (limit.status === to) {
+    return limit;
+  }
+
+  if (!canTransition(limit.status, to)) {
+    throw new InvalidStatusTransitionError(limit.userLimitId, limit.status, to);
+  }
+
+  logger.info(
+    { userLimitId: limit.userLimitId, from: limit.status, to, reason },
+    'UserLimit status changed'
+  );
+  return { ...limit, status: to };
+}
+
+/**
+ * The status `limit` has at time `at`: an IN_COOLDOWN limit becomes ACTIVE (or CANCELED,
+ * for a pending cancellation) once `cooldownUntil` is reached, a FUTURE limit is ACTIVE
+ * once `activeFrom` is reached, and a limit that is not final is EXPIRED from
+ * `activeUntil` on.
+ */
+export function statusAt(limit: UserLimit, at: number): LimitStatus {
+  let status = limit.status;
+
+  if (
+    status === LimitStatus.IN_COOLDOWN &&
+    limit.cooldownUntil !== undefined &&
+    at >= limit.cooldownUntil
+  ) {
+    status = limit.pendingCancellation ? LimitStatus.CANCELED : LimitStatus.ACTIVE;
+  }
+  if (status === LimitStatus.FUTURE && at >= limit.activeFrom) {
+    status = LimitStatus.ACTIVE;
+  }
+  if (!isFinal(status) && limit.activeUntil !== undefined && at >= limit.activeUntil) {
+    status = LimitStatus.EXPIRED;
+  }
+
+  return status;
+}
+
+/**
+ * Applies the transitions that are due by time `at` (see statusAt)
+ */
+export function advanceStatus(limit: UserLimit, at: number): UserLimit {
+  const status = statusAt(limit, at);
+  if (status === limit.status) {
+    return limit;
+  }
+
+  const wasCoolingOff = limit.status === LimitStatus.IN_COOLDOWN;
+  const reason =
+    status === LimitStatus.EXPIRED
+      ? 'activeUntil reached'
+      : wasCoolingOff
+        ? 'cooling-off period ended'
+        : 'activeFrom reached';
+  const advanced = transition(limit, status, reason);
+
+  return wasCoolingOff ? endCooldown(advanced) : advanced;
+}
+
+export function endCooldown(limit: UserLimit): UserLimit {
+  return { ...limit, cooldownUntil: undefined, pendingCancellation: undefined };
+}
+
+/**
+ * The value progress is checked against: while a change cools off, the value from before
+ * the change still applies
+ */
+export function effectiveLimitValue(limit: UserLimit): string {
+  return limit.status === LimitStatus.IN_COOLDOWN && limit.previousLimitValue !== undefined
+    ? limit.previousLimitValue
+    : limit.value;
+}
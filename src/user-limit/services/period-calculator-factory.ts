@@ -0,0 +1,42 @@
+import { DEFAULT_TIME_ZONE, PeriodCalculator } from './period-calculator';
+import { isValidTimeZone } from '../../utils/time-zone';
+import { createChildLogger } from '../../utils/logger';
+
+const logger = createChildLogger({ service: 'period-calculator-factory' });
+
+/**
+ * Factory function to create the PeriodCalculator based on environment configuration
+ *
+ * Environment Variables:
+ * - LIMIT_DEFAULT_TIMEZONE: IANA time zone for brands without their own (default: 'UTC')
+ * - LIMIT_BRAND_TIMEZONES: comma-separated brandId=timeZone pairs,
+ *   e.g. 'brand-1=Europe/Malta,brand-2=America/Toronto'
+ */
+export function createPeriodCalculator(): PeriodCalculator {
+  let defaultTimeZone = process.env.LIMIT_DEFAULT_TIMEZONE?.trim() || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(defaultTimeZone)) {
+    logger.warn({ timeZone: defaultTimeZone }, 'Unknown default time zone, falling back to UTC');
+    defaultTimeZone = DEFAULT_TIME_ZONE;
+  }
+
+  return new PeriodCalculator({ defaultTimeZone, brandTimeZones: readBrandTimeZones() });
+}
+
+function readBrandTimeZones(): Record<string, string> {
+  const brandTimeZones: Record<string, string> = {};
+
+  for (const entry of (process.env.LIMIT_BRAND_TIMEZONES ?? '').split(',')) {
+    if (entry.trim() === '') {
+      continue;
+    }
+
+    const [brandId, timeZone] = entry.split('=').map((part) => part.trim());
+    if (!brandId || !timeZone || !isValidTimeZone(timeZone)) {
+      logger.warn({ entry }, 'Invalid brand time zone, brand uses the default time zone');
+      continue;
+    }
+    brandTimeZones[brandId] = timeZone;
+  }
+
+  return brandTimeZones;
+}
@@ -0,0 +1,113 @@
+import { LimitPeriod, UserLimit } from '../models/user-limit';
+import {
+  ZonedDateTime,
+  daysInMonth,
+  fromZonedDateTime,
+  toZonedDateTime,
+  weekdayOf,
+} from '../../utils/time-zone';
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PeriodCalculatorOptions {
+  /** IANA time zone for brands without their own (default: 'UTC') */
+  defaultTimeZone?: string;
+  /** IANA time zone per brandId */
+  brandTimeZones?: Record<string, string>;
+}
+
+export type PeriodLimit = Pick<UserLimit, 'period' | 'brandId' | 'activeFrom'>;
+
+/**
+ * Works out when a limit's period ends, in the wall-clock time of the limit's brand.
+ *
+ * - CALENDAR_DAY / CALENDAR_WEEK / CALENDAR_MONTH reset at the next local midnight, the
+ *   next Monday and the 1st of the next month
+ * - DAY / WEEK / MONTH are rolling periods anchored at the limit's `activeFrom`; a monthly
+ *   period anchored on the 31st resets on the last day of shorter months
+ * - INDEFINITE and INSTANCE limits never reset
+ */
+export class PeriodCalculator {
+  private readonly defaultTimeZone: string;
+  private readonly brandTimeZones: Record<string, string>;
+
+  constructor(options: PeriodCalculatorOptions = {}) {
+    this.defaultTimeZone = options.defaultTimeZone ?? DEFAULT_TIME_ZONE;
+    this.brandTimeZones = options.brandTimeZones ?? {};
+  }
+
+  timeZoneFor(brandId: string): string {
+    return this.brandTimeZones[brandId] ?? this.defaultTimeZone;
+  }
+
+  /**
+   * The first reset boundary strictly after `at`, or undefined for periods without resets
+   */
+  nextResetTime(limit: PeriodLimit, at: number): number | undefined {
+    const timeZone = this.timeZoneFor(limit.brandId);
+    const now = toZonedDateTime(at, timeZone);
+    const midnight = { ...now, hour: 0, minute: 0, second: 0, millisecond: 0 };
+
+    switch (limit.period) {
+      case LimitPeriod.CALENDAR_DAY:
+        return fromZonedDateTime({ ...midnight, day: now.day + 1 }, timeZone);
+      case LimitPeriod.CALENDAR_WEEK:
+        return fromZonedDateTime(
+          { ...midnight, day: now.day + ((8 - weekdayOf(now)) % 7 || 7) },
+          timeZone
+        );
+      case LimitPeriod.CALENDAR_MONTH:
+        return fromZonedDateTime({ ...midnight, month: now.month + 1, day: 1 }, timeZone);
+      case LimitPeriod.DAY:
+        return this.nextRollingBoundary(limit.activeFrom, at, timeZone, DAY_MS, (anchor, n) => ({
+          ...anchor,
+          day: anchor.day + n,
+        }));
+      case LimitPeriod.WEEK:
+        return this.nextRollingBoundary(
+          limit.activeFrom,
+          at,
+          timeZone,
+          7 * DAY_MS,
+          (anchor, n) => ({ ...anchor, day: anchor.day + 7 * n })
+        );
+      case LimitPeriod.MONTH:
+        return this.nextRollingBoundary(limit.activeFrom, at, timeZone, 31 * DAY_MS, addMonths);
+      case LimitPeriod.INDEFINITE:
+      case LimitPeriod.INSTANCE:
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Smallest `anchor + n periods` (n >= 1) after `at`. The search starts at the number of
+   * periods of `maxLengthMs` that fit before `at`, less a day of slack for DST shifts, so
+   * it can never start past the answer.
+   */
+  private nextRollingBoundary(
+    activeFrom: number,
+    at: number,
+    timeZone: string,
+    maxLengthMs: number,
+    step: (anchor: ZonedDateTime, n: number) => ZonedDateTime
+  ): number {
+    const anchor = toZonedDateTime(activeFrom, timeZone);
+    const boundaryAt = (n: number): number => fromZonedDateTime(step(anchor, n), timeZone);
+
+    let n = Math.max(1, Math.floor((at - activeFrom - DAY_MS) / maxLengthMs));
+    while (boundaryAt(n) <= at) {
+      n++;
+    }
+    return boundaryAt(n);
+  }
+}
+
+function addMonths(anchor: ZonedDateTime, n: number): ZonedDateTime {
+  const monthIndex = anchor.month - 1 + n;
+  const year = anchor.year + Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+  return { ...anchor, year, month, day: Math.min(anchor.day, daysInMonth(year, month)) };
+}
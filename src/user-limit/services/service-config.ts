@@ -0,0 +1,17 @@
+import { UserLimitServiceOptions } from './user-limit-service';
+import { createPeriodCalculator } from './period-calculator-factory';
+import { readPositiveInteger } from '../../utils/env';
+
+/**
+ * Builds UserLimitService options from environment configuration
+ *
+ * Environment Variables:
+ * - LIMIT_COOLING_OFF_PERIOD_MS: delay before limit increases and cancellations take effect (default: 86400000)
+ * - LIMIT_DEFAULT_TIMEZONE, LIMIT_BRAND_TIMEZONES: see createPeriodCalculator
+ */
+export function createUserLimitServiceOptions(): UserLimitServiceOptions {
+  return {
+    periodCalculator: createPeriodCalculator(),
+    coolingOffPeriodMs: readPositiveInteger('LIMIT_COOLING_OFF_PERIOD_MS'),
+  };
+}
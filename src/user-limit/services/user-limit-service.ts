@@ -1,102 +1,603 @@
 import { createChildLogger } from '../../utils/logger';
 import { IUserLimitRepository } from '../repositories/user-limit-repository';
-import { EventType } from '../models/events';
-import { UserLimit, LimitStatus } from '../models/user-limit';
+import {
+  EventType,
+  UserLimitCanceledEvent,
+  UserLimitChangedEvent,
+  UserLimitChangeSourceAddedEvent,
+  UserLimitCreatedEvent,
+  UserLimitEvent,
+  UserLimitProgressChangedEvent,
+  UserLimitResetEvent,
+} from '../models/events';
+import {
+  UserLimit,
+  LimitStatus,
+  LimitChangeSource,
+  ProgressExplanation,
+} from '../models/user-limit';
 import {
   UnknownEventTypeError,
+  UserLimitAlreadyExistsError,
   UserLimitNotFoundError,
   UserLimitExceededError,
+  UserLimitVersionConflictError,
+  StaleEventError,
+  DuplicateEventError,
+  NoMatchingUserLimitError,
+  UserLimitNotActiveError,
 } from '../../types/errors';
-import { ValidatedEventData } from '../../types/events';
+import { formatMinorUnits, toMinorUnits } from '../../utils/money';
+import { SpanAttribute, withSpan } from '../../tracing/tracing';
+import { PeriodCalculator } from './period-calculator';
+import {
+  acceptsProgress,
+  advanceStatus,
+  effectiveLimitValue,
+  endCooldown,
+  isFinal,
+  statusAt,
+  transition,
+} from './limit-lifecycle';
 
 const logger = createChildLogger({ service: 'user-limit-service' });
 
+const DEFAULT_MAX_UPDATE_ATTEMPTS = 3;
+/** Applied eventIds kept per limit to recognise replays (see assertNotStale) */
+const MAX_RECENT_EVENT_IDS = 20;
+export const DEFAULT_COOLING_OFF_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+export interface UserLimitServiceOptions {
+  /** Read-modify-write attempts before a version conflict is surfaced (default: 3) */
+  maxUpdateAttempts?: number;
+  /** Clock used for expiring change sources (default: Date.now) */
+  now?: () => number;
+  /** Computes reset boundaries the producer did not send (default: UTC for all brands) */
+  periodCalculator?: PeriodCalculator;
+  /** How long limit increases and cancellations wait before they take effect (default: 24h) */
+  coolingOffPeriodMs?: number;
+}
+
 export class UserLimitService {
-  constructor(private repository: IUserLimitRepository) {}
+  private readonly maxUpdateAttempts: number;
+  private readonly now: () => number;
+  private readonly periodCalculator: PeriodCalculator;
+  private readonly coolingOffPeriodMs: number;
+
+  constructor(
+    private repository: IUserLimitRepository,
+    options: UserLimitServiceOptions = {}
+  ) {
+    this.maxUpdateAttempts = options.maxUpdateAttempts ?? DEFAULT_MAX_UPDATE_ATTEMPTS;
+    this.now = options.now ?? Date.now;
+    this.periodCalculator = options.periodCalculator ?? new PeriodCalculator();
+    this.coolingOffPeriodMs = options.coolingOffPeriodMs ?? DEFAULT_COOLING_OFF_PERIOD_MS;
+  }
 
-  async processEvent(event: ValidatedEventData): Promise<void> {
+  async processEvent(event: UserLimitEvent): Promise<void> {
     switch (event.eventType) {
       case EventType.USER_LIMIT_CREATED:
-        await this.handleLimitCreated(event);
+        await this.traced('handleLimitCreated', event, () => this.handleLimitCreated(event));
         break;
       case EventType.USER_LIMIT_PROGRESS_CHANGED:
-        await this.handleProgressChanged(event);
+        await this.traced('handleProgressChanged', event, () => this.handleProgressChanged(event));
         break;
       case EventType.USER_LIMIT_RESET:
-        await this.handleLimitReset(event);
+        await this.traced('handleLimitReset', event, () => this.handleLimitReset(event));
+        break;
+      case EventType.USER_LIMIT_CHANGE_SOURCE_ADDED:
+        await this.traced('handleChangeSourceAdded', event, () =>
+          this.handleChangeSourceAdded(event)
+        );
+        break;
+      case EventType.USER_LIMIT_CHANGED:
+        await this.traced('handleLimitChanged', event, () => this.handleLimitChanged(event));
+        break;
+      case EventType.USER_LIMIT_CANCELED:
+        await this.traced('handleLimitCanceled', event, () => this.handleLimitCanceled(event));
         break;
       default:
-        throw new UnknownEventTypeError(String(event.eventType));
+        throw new UnknownEventTypeError(String((event as { eventType: unknown }).eventType));
     }
   }
 
-  private async handleLimitCreated(event: ValidatedEventData): Promise<void> {
-    const now = Date.now();
-    const userLimit: UserLimit = {
-      userLimitId: event.userLimitId!,
-      userId: event.userId,
-      brandId: event.brandId || '',
-      type: event.type! as UserLimit['type'],
-      period: event.period! as UserLimit['period'],
-      value: event.value!,
-      currencyCode: event.currencyCode || 'USD',
-      status: (event.status as UserLimit['status']) || LimitStatus.ACTIVE,
-      activeFrom: event.activeFrom || now,
-      progress: '0',
-      createdAt: now,
-      nextResetTime: event.nextResetTime,
-      activeUntil: event.activeUntil,
-    };
+  private traced(handler: string, event: UserLimitEvent, fn: () => Promise<void>): Promise<void> {
+    return withSpan(
+      `UserLimitService.${handler}`,
+      {
+        [SpanAttribute.EVENT_TYPE]: event.eventType,
+        [SpanAttribute.USER_LIMIT_ID]: 'userLimitId' in event ? event.userLimitId : undefined,
+      },
+      fn
+    );
+  }
 
-    await this.repository.save(userLimit);
+  /**
+   * Lists the non-expired sources that contributed to a limit's current progress
+   */
+  async explainProgress(userLimitId: string): Promise<ProgressExplanation> {
+    const userLimit = await this.repository.findById(userLimitId);
+
+    if (!userLimit) {
+      throw new UserLimitNotFoundError(userLimitId);
+    }
+
+    const { currencyCode } = userLimit;
+    const sources = this.activeChangeSources(userLimit);
+    const sourcesTotal = sources.reduce(
+      (total, source) => total + toMinorUnits(source.amount, currencyCode),
+      0n
+    );
+
+    return {
+      userLimitId,
+      currencyCode,
+      progress: userLimit.progress || '0',
+      sources,
+      sourcesTotal: formatMinorUnits(sourcesTotal, currencyCode),
+    };
   }
 
-  private async handleProgressChanged(event: ValidatedEventData): Promise<void> {
-    const existingLimit = await this.repository.findById(event.userLimitId!);
+  /**
+   * Without a producer `nextResetTime` the first reset is computed from the later of
+   * `activeFrom` and the event time, so a limit created ahead of time resets after it
+   * becomes active. A FUTURE limit whose `activeFrom` already passed is stored as ACTIVE.
+   *
+   * A replayed create that the idempotency store did not catch (a cold container, an
+   * expired entry) finds the limit it created and is acknowledged as a duplicate; a create
+   * for an existing limit from any other event still fails.
+   */
+  private async handleLimitCreated(event: UserLimitCreatedEvent): Promise<void> {
+    const now = this.now();
+    const eventTime = this.parseTimestamp(event.timestamp) ?? now;
+    const userLimit: UserLimit = advanceStatus(
+      {
+        userLimitId: event.userLimitId,
+        userId: event.userId,
+        brandId: event.brandId,
+        type: event.type,
+        period: event.period,
+        value: event.value,
+        currencyCode: event.currencyCode,
+        status: event.status,
+        activeFrom: event.activeFrom,
+        progress: '0',
+        createdAt: now,
+        createdByEventId: event.eventId,
+        nextResetTime:
+          event.nextResetTime ??
+          this.periodCalculator.nextResetTime(event, Math.max(event.activeFrom, eventTime)),
+        activeUntil: event.activeUntil,
+        version: 1,
+        ...this.eventPosition(event),
+      },
+      eventTime
+    );
+
+    try {
+      await this.repository.save(userLimit);
+    } catch (error) {
+      if (!(error instanceof UserLimitAlreadyExistsError)) {
+        throw error;
+      }
 
-    if (!existingLimit) {
-      throw new UserLimitNotFoundError(event.userLimitId!);
+      const storedLimit = await this.repository.findById(event.userLimitId);
+      if (storedLimit && this.wasApplied(storedLimit, event)) {
+        logger.info(
+          { userLimitId: event.userLimitId, eventId: event.eventId },
+          'Ignoring create for a limit that was already created from this event'
+        );
+        throw new DuplicateEventError(event.userLimitId, event.eventId);
+      }
+      throw error;
     }
+  }
+
+  /**
+   * `amount` is a delta on top of the current progress. Our stored progress is the base,
+   * since stale and duplicate events are already filtered out; the producer's
+   * `previousProgress` and `remainingAmount` are only cross-checked. All arithmetic is done
+   * in integer minor units of the limit's currency.
+   *
+   * When the event happened at or after the limit's `nextResetTime` and no reset event was
+   * applied in between, the period is reset first, so progress never carries over into the
+   * next period. Progress only counts while the limit is ACTIVE or IN_COOLDOWN at the time
+   * of the event.
+   */
+  private async handleProgressChanged(event: UserLimitProgressChangedEvent): Promise<void> {
+    await this.updateWithRetry(event.userLimitId, (storedLimit) => {
+      this.assertNotStale(storedLimit, event);
+
+      const eventTime = this.parseTimestamp(event.timestamp) ?? this.now();
+      const currentLimit = advanceStatus(storedLimit, eventTime);
+
+      if (!acceptsProgress(currentLimit.status)) {
+        logger.warn(
+          { userLimitId: currentLimit.userLimitId, status: currentLimit.status, eventTime },
+          'Rejecting progress for limit that is not active'
+        );
+        throw new UserLimitNotActiveError(currentLimit.userLimitId, currentLimit.status);
+      }
+
+      const existingLimit = this.applyMissedReset(currentLimit, event, eventTime);
+      const { currencyCode, userLimitId } = existingLimit;
+      const storedProgress = toMinorUnits(existingLimit.progress || '0', currencyCode);
+      const limitValue = toMinorUnits(effectiveLimitValue(existingLimit), currencyCode);
+      const newProgress = storedProgress + toMinorUnits(event.amount, currencyCode);
+
+      if (
+        event.previousProgress !== undefined &&
+        toMinorUnits(event.previousProgress, currencyCode) !== storedProgress
+      ) {
+        logger.warn(
+          {
+            userLimitId,
+            previousProgress: event.previousProgress,
+            storedProgress: formatMinorUnits(storedProgress, currencyCode),
+          },
+          'Producer previousProgress differs from stored progress'
+        );
+      }
+
+      if (
+        event.remainingAmount !== undefined &&
+        toMinorUnits(event.remainingAmount, currencyCode) !== limitValue - newProgress
+      ) {
+        logger.warn(
+          {
+            userLimitId,
+            remainingAmount: event.remainingAmount,
+            computedRemainingAmount: formatMinorUnits(limitValue - newProgress, currencyCode),
+          },
+          'Producer remainingAmount differs from computed remaining amount'
+        );
+      }
+
+      if (newProgress > limitValue) {
+        const progress = formatMinorUnits(newProgress, currencyCode);
+        const limit = formatMinorUnits(limitValue, currencyCode);
+        logger.warn({ userLimitId, progress, limit }, 'Progress exceeds limit amount');
+        throw new UserLimitExceededError(userLimitId, progress, limit);
+      }
+
+      return {
+        ...existingLimit,
+        progress: formatMinorUnits(newProgress, currencyCode),
+        changeSources: existingLimit.changeSources && this.activeChangeSources(existingLimit),
+        ...this.eventPosition(event, existingLimit),
+      };
+    });
+  }
+
+  private async handleLimitReset(event: UserLimitResetEvent): Promise<void> {
+    await this.updateWithRetry(event.userLimitId, (storedLimit) => {
+      this.assertNotStale(storedLimit, event);
+
+      const eventTime = this.parseTimestamp(event.timestamp) ?? this.now();
+      const existingLimit = advanceStatus(storedLimit, eventTime);
+
+      return {
+        ...existingLimit,
+        progress: '0',
+        nextResetTime:
+          event.nextResetTime ?? this.periodCalculator.nextResetTime(existingLimit, eventTime),
+        changeSources: existingLimit.changeSources && this.activeChangeSources(existingLimit),
+        ...this.eventPosition(event, existingLimit),
+      };
+    });
+  }
+
+  /**
+   * Decreases apply immediately and end a pending increase. Increases only take effect
+   * after the cooling-off period: until then the limit is IN_COOLDOWN and
+   * `previousLimitValue` - the value in effect before the change - applies. A FUTURE limit
+   * protects nothing yet and takes any change immediately.
+   *
+   * A change never withdraws a pending cancellation: the limit stays IN_COOLDOWN until it
+   * is canceled, a decrease applies right away and an increase is not applied at all.
+   */
+  private async handleLimitChanged(event: UserLimitChangedEvent): Promise<void> {
+    await this.updateWithRetry(event.userLimitId, (storedLimit) => {
+      this.assertNotStale(storedLimit, event);
+
+      const eventTime = this.parseTimestamp(event.timestamp) ?? this.now();
+      const existingLimit = advanceStatus(storedLimit, eventTime);
+      const { currencyCode, userLimitId } = existingLimit;
+      const currentValue = effectiveLimitValue(existingLimit);
+      const changed = {
+        value: event.value,
+        previousLimitValue: currentValue,
+        ...this.eventPosition(event, existingLimit),
+      };
+
+      if (existingLimit.status === LimitStatus.FUTURE) {
+        return { ...existingLimit, ...changed };
+      }
+
+      const isDecrease =
+        toMinorUnits(event.value, currencyCode) <= toMinorUnits(currentValue, currencyCode);
+
+      if (existingLimit.pendingCancellation) {
+        logger.warn(
+          {
+            userLimitId,
+            value: event.value,
+            previousValue: currentValue,
+            cooldownUntil: existingLimit.cooldownUntil,
+            applied: isDecrease,
+          },
+          'Limit changed during a pending cancellation, keeping the cancellation'
+        );
+        return {
+          ...existingLimit,
+          ...changed,
+          previousLimitValue: isDecrease ? event.value : currentValue,
+        };
+      }
 
-    // Extract progress from event (could be 'amount', 'previousProgress', or other field)
-    const newProgress = event.amount || event.previousProgress || '0';
-    const limitValue = parseFloat(existingLimit.value);
-    const progressValue = parseFloat(newProgress);
-
-    if (progressValue > limitValue) {
-      logger.warn(
-        {
-          userLimitId: event.userLimitId!,
-          progress: progressValue,
-          limit: limitValue,
-        },
-        'Progress exceeds limit amount'
+      if (isDecrease) {
+        logger.info(
+          { userLimitId, value: event.value, previousValue: currentValue },
+          'Applying limit decrease'
+        );
+        return {
+          ...endCooldown(transition(existingLimit, LimitStatus.ACTIVE, 'limit decreased')),
+          ...changed,
+        };
+      }
+
+      const cooldownUntil = eventTime + this.coolingOffPeriodMs;
+      logger.info(
+        { userLimitId, value: event.value, previousValue: currentValue, cooldownUntil },
+        'Limit increase cooling off'
+      );
+      return {
+        ...transition(existingLimit, LimitStatus.IN_COOLDOWN, 'limit increased'),
+        ...changed,
+        cooldownUntil,
+      };
+    });
+  }
+
+  /**
+   * Cancellations only take effect after the cooling-off period, during which the limit is
+   * IN_COOLDOWN and keeps applying. A FUTURE limit is canceled immediately, and repeating
+   * a pending cancellation does not extend its cooling-off.
+   */
+  private async handleLimitCanceled(event: UserLimitCanceledEvent): Promise<void> {
+    await this.updateWithRetry(event.userLimitId, (storedLimit) => {
+      this.assertNotStale(storedLimit, event);
+
+      const eventTime = this.parseTimestamp(event.timestamp) ?? this.now();
+      const existingLimit = advanceStatus(storedLimit, eventTime);
+      const position = this.eventPosition(event, existingLimit);
+
+      if (existingLimit.status === LimitStatus.FUTURE) {
+        return {
+          ...transition(existingLimit, LimitStatus.CANCELED, 'canceled before activeFrom'),
+          ...position,
+        };
+      }
+
+      if (existingLimit.pendingCancellation) {
+        return { ...existingLimit, ...position };
+      }
+
+      const cooldownUntil = eventTime + this.coolingOffPeriodMs;
+      logger.info(
+        { userLimitId: existingLimit.userLimitId, cooldownUntil },
+        'Limit cancellation cooling off'
       );
-      throw new UserLimitExceededError(event.userLimitId!, progressValue, limitValue);
+      return {
+        ...transition(existingLimit, LimitStatus.IN_COOLDOWN, 'limit canceled'),
+        previousLimitValue: effectiveLimitValue(existingLimit),
+        cooldownUntil,
+        pendingCancellation: true,
+        ...position,
+      };
+    });
+  }
+
+  /**
+   * Change sources carry no userLimitId; they apply to the user's limits of the same type
+   * and period that are not canceled or expired at the time of the event. Expired
+   * contributions are dropped on every write.
+   */
+  private async handleChangeSourceAdded(event: UserLimitChangeSourceAddedEvent): Promise<void> {
+    const eventTime = this.parseTimestamp(event.timestamp) ?? this.now();
+    const matchingLimits = (await this.repository.findByUserId(event.userId)).filter(
+      (limit) =>
+        limit.type === event.type &&
+        limit.period === event.period &&
+        !isFinal(statusAt(limit, eventTime))
+    );
+
+    if (matchingLimits.length === 0) {
+      throw new NoMatchingUserLimitError(event.userId, event.type, event.period);
     }
 
-    const updatedLimit: UserLimit = {
-      ...existingLimit,
-      progress: newProgress,
-    };
+    for (const { userLimitId } of matchingLimits) {
+      await this.updateWithRetry(userLimitId, (storedLimit) => {
+        // A retry after a partial failure finds the source on the limits it already
+        // reached; skipping them (instead of rejecting the event as stale) lets the retry
+        // go on to the limits that were not updated yet
+        if (storedLimit.changeSources?.some((source) => source.eventId === event.eventId)) {
+          logger.debug(
+            { userLimitId, sourceId: event.sourceId, eventId: event.eventId },
+            'Limit change source already recorded'
+          );
+          return undefined;
+        }
+        this.assertNotStale(storedLimit, event);
+
+        const existingLimit = advanceStatus(storedLimit, eventTime);
+        const source: LimitChangeSource = {
+          sourceId: event.sourceId,
+          amount: formatMinorUnits(
+            toMinorUnits(event.amount, existingLimit.currencyCode),
+            existingLimit.currencyCode
+          ),
+          addedAt: eventTime,
+          expiresAt: event.expiresAt,
+          eventId: event.eventId,
+        };
 
-    await this.repository.update(updatedLimit);
+        logger.debug(
+          { userLimitId, sourceId: source.sourceId, expiresAt: source.expiresAt },
+          'Recording limit change source'
+        );
+
+        return {
+          ...existingLimit,
+          changeSources: [
+            ...this.activeChangeSources(existingLimit).filter(
+              ({ sourceId }) => sourceId !== source.sourceId
+            ),
+            source,
+          ],
+          ...this.eventPosition(event, existingLimit),
+        };
+      });
+    }
   }
 
-  private async handleLimitReset(event: ValidatedEventData): Promise<void> {
-    const existingLimit = await this.repository.findById(event.userLimitId!);
+  /**
+   * Resets a limit whose period ended before `event` happened. The next boundary is
+   * computed from the event time, skipping every period that passed without events.
+   */
+  private applyMissedReset(
+    limit: UserLimit,
+    event: UserLimitProgressChangedEvent,
+    eventTime: number
+  ): UserLimit {
+    if (limit.nextResetTime === undefined || eventTime < limit.nextResetTime) {
+      return limit;
+    }
+
+    const nextResetTime =
+      event.nextResetTime !== undefined && event.nextResetTime > eventTime
+        ? event.nextResetTime
+        : this.periodCalculator.nextResetTime(limit, eventTime);
 
-    if (!existingLimit) {
-      throw new UserLimitNotFoundError(event.userLimitId!);
+    logger.info(
+      {
+        userLimitId: limit.userLimitId,
+        missedResetTime: limit.nextResetTime,
+        nextResetTime,
+        discardedProgress: limit.progress,
+      },
+      'Applying missed period reset'
+    );
+
+    return { ...limit, progress: '0', nextResetTime };
+  }
+
+  private activeChangeSources(limit: UserLimit): LimitChangeSource[] {
+    const now = this.now();
+    return (limit.changeSources ?? []).filter(
+      (source) => source.expiresAt === undefined || source.expiresAt > now
+    );
+  }
+
+  /**
+   * Read-modify-write guarded by the limit's version. When another writer (e.g. an
+   * invocation on another shard) updates the limit in between, the limit is re-read and
+   * `apply` runs again on the fresh state, up to `maxUpdateAttempts` times. When `apply`
+   * returns undefined the limit is left as it is.
+   */
+  private async updateWithRetry(
+    userLimitId: string,
+    apply: (existingLimit: UserLimit) => UserLimit | undefined
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const existingLimit = await this.repository.findById(userLimitId);
+
+      if (!existingLimit) {
+        throw new UserLimitNotFoundError(userLimitId);
+      }
+
+      try {
+        const updatedLimit = apply(existingLimit);
+        if (updatedLimit) {
+          await this.repository.update(updatedLimit, existingLimit.version ?? 0);
+        }
+        return;
+      } catch (error) {
+        if (
+          !(error instanceof UserLimitVersionConflictError) ||
+          attempt >= this.maxUpdateAttempts
+        ) {
+          throw error;
+        }
+
+        logger.warn(
+          { userLimitId, attempt, maxAttempts: this.maxUpdateAttempts },
+          'UserLimit modified concurrently, retrying update'
+        );
+      }
+    }
+  }
+
+  /**
+   * Guards against events that arrive after newer ones were applied. An event that was
+   * already applied - the limit was created from it, its eventId is among the limit's
+   * recent ones, or it carries the last applied sequence number - is a replay and is acknowledged (DuplicateEventError).
+   * Any other older event was never applied, so it fails with the permanent
+   * StaleEventError instead of being dropped. The aggregate sequence number is
+   * authoritative; the event timestamp is only used when either side has no sequence.
+   */
+  private assertNotStale(limit: UserLimit, event: UserLimitEvent): void {
+    const eventTimestamp = this.parseTimestamp(event.timestamp);
+    const context = {
+      userLimitId: limit.userLimitId,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      sequenceNumber: event.sequenceNumber,
+      lastSequenceNumber: limit.lastSequenceNumber,
+      lastEventTimestamp: limit.lastEventTimestamp,
+    };
+
+    if (this.wasApplied(limit, event)) {
+      logger.info(context, 'Ignoring event that was already applied');
+      throw new DuplicateEventError(limit.userLimitId, event.eventId);
     }
 
-    const updatedLimit: UserLimit = {
-      ...existingLimit,
-      progress: '0',
-      status: LimitStatus.ACTIVE,
-      nextResetTime: event.nextResetTime,
+    const isStale =
+      event.sequenceNumber !== undefined && limit.lastSequenceNumber !== undefined
+        ? event.sequenceNumber < limit.lastSequenceNumber
+        : eventTimestamp !== undefined &&
+          limit.lastEventTimestamp !== undefined &&
+          eventTimestamp < limit.lastEventTimestamp;
+
+    if (isStale) {
+      logger.warn(context, 'Rejecting event that is older than the last applied event');
+      throw new StaleEventError(limit.userLimitId, event.eventId);
+    }
+  }
+
+  private wasApplied(limit: UserLimit, event: UserLimitEvent): boolean {
+    return (
+      limit.createdByEventId === event.eventId ||
+      limit.recentEventIds?.includes(event.eventId) === true ||
+      (event.sequenceNumber !== undefined && event.sequenceNumber === limit.lastSequenceNumber)
+    );
+  }
+
+  private eventPosition(
+    event: UserLimitEvent,
+    limit?: UserLimit
+  ): Pick<UserLimit, 'lastSequenceNumber' | 'lastEventTimestamp' | 'recentEventIds'> {
+    return {
+      lastSequenceNumber: event.sequenceNumber ?? limit?.lastSequenceNumber,
+      lastEventTimestamp: this.parseTimestamp(event.timestamp) ?? limit?.lastEventTimestamp,
+      recentEventIds: [...(limit?.recentEventIds ?? []), event.eventId].slice(
+        -MAX_RECENT_EVENT_IDS
+      ),
     };
+  }
 
-    await this.repository.update(updatedLimit);
+  private parseTimestamp(timestamp?: string): number | undefined {
+    const parsed = timestamp ? Date.parse(timestamp) : NaN;
+    return Number.isNaN(parsed) ? undefined : parsed;
   }
 }
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { validateEvent } from '../event-schemas';
+import { EventType } from '../../models/events';
+import { LimitPeriod, LimitStatus, LimitType } from '../../models/user-limit';
+
+const createdEvent = {
+  eventId: 'event-1',
+  eventType: EventType.USER_LIMIT_CREATED,
+  timestamp: '2024-01-01T00:00:00.000Z',
+  userId: 'user-123',
+  userLimitId: 'limit-123',
+  brandId: 'brand-123',
+  type: LimitType.DEPOSIT,
+  period: LimitPeriod.DAY,
+  value: '1000',
+  currencyCode: 'USD',
+  status: LimitStatus.ACTIVE,
+  activeFrom: 1234567890,
+};
+
+describe('validateEvent - limit enums', () => {
+  it('should accept known limit types, periods and statuses', async () => {
+    const result = await validateEvent(createdEvent);
+
+    expect(result.isValid).toBe(true);
+    expect(result.validatedData).toMatchObject({ type: 'DEPOSIT', period: 'DAY' });
+  });
+
+  it.each([
+    ['type', 'WAGER'],
+    ['period', 'FORTNIGHT'],
+    ['status', 'PAUSED'],
+  ])('should reject an unknown %s', async (field, value) => {
+    const result = await validateEvent({ ...createdEvent, [field]: value });
+
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toBe('validation-failed');
+    expect(result.errors).toEqual([expect.stringContaining(field)]);
+  });
+});
+
+describe('validateEvent - limit changes', () => {
+  it('should accept USER_LIMIT_CHANGED and USER_LIMIT_CANCELED events', async () => {
+    const base = {
+      eventId: 'event-2',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      userId: 'user-123',
+      userLimitId: 'limit-123',
+      brandId: 'brand-123',
+    };
+
+    const changed = await validateEvent({
+      ...base,
+      eventType: EventType.USER_LIMIT_CHANGED,
+      value: '500',
+      currencyCode: 'USD',
+    });
+    const canceled = await validateEvent({ ...base, eventType: EventType.USER_LIMIT_CANCELED });
+
+    expect(changed.isValid).toBe(true);
+    expect(canceled.isValid).toBe(true);
+  });
+
+  it('should require the new value of a changed limit', async () => {
+    const result = await validateEvent({
+      eventId: 'event-2',
+      eventType: EventType.USER_LIMIT_CHANGED,
+      timestamp: '2024-01-01T00:00:00.000Z',
+      userId: 'user-123',
+      userLimitId: 'limit-123',
+      brandId: 'brand-123',
+      currencyCode: 'USD',
+    });
+
+    expect(result.errors).toEqual(['value is a required field']);
+  });
+});
@@ -1,28 +1,32 @@
 import * as yup from 'yup';
 import { EventType } from '../models/events';
+import { LimitPeriod, LimitStatus, LimitType } from '../models/user-limit';
 import { ValidatedEventData } from '../../types/events';
+import { baseEventSchema, enumField, eventTypeField } from '../../validation/base-event-schema';
+import { limitUserSchemas } from '../../limit-user/validation/event-schemas';
+import {
+  DEFAULT_SCHEMA_VERSION,
+  VersionedEventSchema,
+  validateVersioned,
+  versionedSchema,
+} from '../../validation/versioned-event-schema';
 
-const baseEventSchema = yup.object({
-  eventId: yup.string().required(),
-  eventType: yup.string().oneOf(Object.values(EventType)).required(),
-  timestamp: yup.string().required(),
-  userId: yup.string().required(),
-});
-
-const userLimitCreatedSchema = baseEventSchema.shape({
+export const userLimitCreatedSchema = baseEventSchema.shape({
+  eventType: eventTypeField(EventType.USER_LIMIT_CREATED),
   userLimitId: yup.string().required(),
-  type: yup.string().required(),
-  period: yup.string().required(),
+  type: enumField(LimitType),
+  period: enumField(LimitPeriod),
   value: yup.string().required(),
   currencyCode: yup.string().required(),
-  status: yup.string().required(),
+  status: enumField(LimitStatus),
   activeFrom: yup.number().required(),
   brandId: yup.string().required(),
   nextResetTime: yup.number().optional(),
   activeUntil: yup.number().optional(),
 });
 
-const userLimitProgressChangedSchema = baseEventSchema.shape({
+export const userLimitProgressChangedSchema = baseEventSchema.shape({
+  eventType: eventTypeField(EventType.USER_LIMIT_PROGRESS_CHANGED),
   userLimitId: yup.string().required(),
   amount: yup.string().required(),
   previousProgress: yup.string().optional(),
@@ -32,10 +36,11 @@ const userLimitProgressChangedSchema = baseEventSchema.shape({
   remainingAmount: yup.string().optional(),
 });
 
-const userLimitResetSchema = baseEventSchema.shape({
+export const userLimitResetSchema = baseEventSchema.shape({
+  eventType: eventTypeField(EventType.USER_LIMIT_RESET),
   userLimitId: yup.string().required(),
-  type: yup.string().required(),
-  period: yup.string().required(),
+  type: enumField(LimitType),
+  period: enumField(LimitPeriod),
   brandId: yup.string().required(),
   currencyCode: yup.string().required(),
   nextResetTime: yup.number().optional(),
@@ -44,49 +49,94 @@ const userLimitResetSchema = baseEventSchema.shape({
   unusedAmount: yup.string().optional(),
 });
 
-const schemaRegistry: Record<EventType, yup.AnyObjectSchema> = {
-  [EventType.USER_LIMIT_CREATED]: userLimitCreatedSchema,
-  [EventType.USER_LIMIT_PROGRESS_CHANGED]: userLimitProgressChangedSchema,
-  [EventType.USER_LIMIT_RESET]: userLimitResetSchema,
+export const userLimitChangeSourceAddedSchema = baseEventSchema.shape({
+  eventType: eventTypeField(EventType.USER_LIMIT_CHANGE_SOURCE_ADDED),
+  sourceId: yup.string().required(),
+  amount: yup.string().required(),
+  brandId: yup.string().required(),
+  type: enumField(LimitType),
+  period: enumField(LimitPeriod),
+  expiresAt: yup.number().optional(),
+});
+
+export const userLimitChangedSchema = baseEventSchema.shape({
+  eventType: eventTypeField(EventType.USER_LIMIT_CHANGED),
+  userLimitId: yup.string().required(),
+  value: yup.string().required(),
+  brandId: yup.string().required(),
+  currencyCode: yup.string().required(),
+});
+
+export const userLimitCanceledSchema = baseEventSchema.shape({
+  eventType: eventTypeField(EventType.USER_LIMIT_CANCELED),
+  userLimitId: yup.string().required(),
+  brandId: yup.string().required(),
+});
+
+// Register a new producer schema by moving the current one into previousVersions together
+// with an upcaster to the new shape, e.g. versionedSchema(v2Schema, [{ version: 1, ... }])
+export const schemaRegistry: Record<EventType, VersionedEventSchema> = {
+  [EventType.USER_LIMIT_CREATED]: versionedSchema(userLimitCreatedSchema),
+  [EventType.USER_LIMIT_PROGRESS_CHANGED]: versionedSchema(userLimitProgressChangedSchema),
+  [EventType.USER_LIMIT_RESET]: versionedSchema(userLimitResetSchema),
+  [EventType.USER_LIMIT_CHANGE_SOURCE_ADDED]: versionedSchema(userLimitChangeSourceAddedSchema),
+  [EventType.USER_LIMIT_CHANGED]: versionedSchema(userLimitChangedSchema),
+  [EventType.USER_LIMIT_CANCELED]: versionedSchema(userLimitCanceledSchema),
+  ...limitUserSchemas,
 };
 
+/**
+ * - unknown-event-type: the eventType is not one this service has a schema for
+ * - unsupported-schema-version: no schema is registered for the event's schemaVersion
+ * - validation-failed: the event does not match the schema of its type and version
+ */
+export type ValidationFailureReason =
+  'unknown-event-type' | 'unsupported-schema-version' | 'validation-failed';
+
 export async function validateEvent(data: unknown): Promise<{
   isValid: boolean;
   eventType?: EventType;
   validatedData?: ValidatedEventData;
   error?: string;
+  errors?: string[];
+  reason?: ValidationFailureReason;
 }> {
+  const rawEventType = (data as { eventType?: unknown } | null)?.eventType;
+  if (typeof rawEventType === 'string' && !Object.hasOwn(schemaRegistry, rawEventType)) {
+    return invalid('unknown-event-type', [`Unknown event type: ${rawEventType}`]);
+  }
+
   try {
     const partial = await baseEventSchema.validate(data, { abortEarly: false });
     const eventType = partial.eventType as EventType;
 
-    const schema = schemaRegistry[eventType];
-    if (!schema) {
-      return {
-        isValid: false,
-        error: `Unknown event type: ${String(eventType)}`,
-      };
-    }
+    const result = await validateVersioned(
+      schemaRegistry[eventType],
+      eventType,
+      data,
+      partial.schemaVersion ?? DEFAULT_SCHEMA_VERSION
+    );
 
-    const validatedData = (await schema.validate(data, {
-      abortEarly: false,
-    })) as ValidatedEventData;
+    if (!result.supported) {
+      return invalid('unsupported-schema-version', [result.error]);
+    }
 
     return {
       isValid: true,
       eventType,
-      validatedData,
+      validatedData: result.data as ValidatedEventData,
     };
   } catch (error) {
     if (error instanceof yup.ValidationError) {
-      return {
-        isValid: false,
-        error: error.errors.join(', '),
-      };
+      return invalid('validation-failed', error.errors);
     }
-    return {
-      isValid: false,
-      error: (error as Error).message,
-    };
+    return invalid('validation-failed', [(error as Error).message]);
   }
 }
+
+function invalid(
+  reason: ValidationFailureReason,
+  errors: string[]
+): { isValid: false; error: string; errors: string[]; reason: ValidationFailureReason } {
+  return { isValid: false, error: errors.join(', '), errors, reason };
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CircuitBreaker } from '../circuit-breaker';
+import { CircuitOpenError } from '../../types/errors';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  const fail = (): Promise<never> => Promise.reject(new Error('Backend down'));
+  const succeed = (): Promise<string> => Promise.resolve('ok');
+  const failTimes = async (times: number): Promise<void> => {
+    for (let i = 0; i < times; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow('Backend down');
+    }
+  };
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker('test', {
+      failureThreshold: 3,
+      resetTimeoutMs: 1000,
+      now: () => now,
+    });
+  });
+
+  it('should open after consecutive failures and then fail fast', async () => {
+    await failTimes(3);
+
+    expect(breaker.getState()).toBe('open');
+    await expect(breaker.execute(succeed)).rejects.toThrow(CircuitOpenError);
+  });
+
+  it('should reset the failure count after a success', async () => {
+    await failTimes(2);
+    await breaker.execute(succeed);
+    await failTimes(2);
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should not count errors that are not failures', async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail, () => false)).rejects.toThrow('Backend down');
+    }
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should let one trial call through once the reset timeout has passed', async () => {
+    await failTimes(3);
+    now = 1000;
+
+    expect(breaker.getState()).toBe('half-open');
+    let release: () => void = () => {};
+    const trial = breaker.execute(() => new Promise<void>((resolve) => (release = resolve)));
+    await expect(breaker.execute(succeed)).rejects.toThrow(CircuitOpenError);
+
+    release();
+    await trial;
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should re-open when the trial call fails', async () => {
+    await failTimes(3);
+    now = 1000;
+
+    await failTimes(1);
+
+    expect(breaker.getState()).toBe('open');
+    now = 1999;
+    expect(breaker.getState()).toBe('open');
+    now = 2000;
+    expect(breaker.getState()).toBe('half-open');
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { readPositiveInteger } from '../env';
+
+describe('readPositiveInteger', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should read positive integers', () => {
+    vi.stubEnv('SETTING', '42');
+
+    expect(readPositiveInteger('SETTING')).toBe(42);
+  });
+
+  it.each(['', '  ', '0', '-1', '1.5', 'ten'])('should ignore %j', (raw) => {
+    vi.stubEnv('SETTING', raw);
+
+    expect(readPositiveInteger('SETTING')).toBeUndefined();
+  });
+
+  it('should ignore unset settings', () => {
+    expect(readPositiveInteger('UNSET_SETTING')).toBeUndefined();
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { getLogContext, withLogContext } from '../logger';
+
+describe('withLogContext', () => {
+  it('should expose the context to async work started inside it', async () => {
+    const context = await withLogContext({ eventId: 'event-1' }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return getLogContext();
+    });
+
+    expect(context).toEqual({ eventId: 'event-1' });
+    expect(getLogContext()).toEqual({});
+  });
+
+  it('should merge nested contexts', () => {
+    const context = withLogContext({ correlationId: 'correlation-1', eventId: 'event-1' }, () =>
+      withLogContext({ eventId: 'event-2' }, getLogContext)
+    );
+
+    expect(context).toEqual({ correlationId: 'correlation-1', eventId: 'event-2' });
+  });
+
+  it('should keep concurrent contexts apart', async () => {
+    const read = (eventId: string): Promise<string | undefined> =>
+      withLogContext({ eventId }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return getLogContext().eventId;
+      });
+
+    expect(await Promise.all([read('event-1'), read('event-2')])).toEqual(['event-1', 'event-2']);
+  });
+});
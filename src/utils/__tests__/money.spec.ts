@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { formatMinorUnits, getMinorUnits, toMinorUnits } from '../money';
+import { InvalidAmountError } from '../../types/errors';
+
+describe('money', () => {
+  describe('getMinorUnits', () => {
+    it('should default to 2 decimals', () => {
+      expect(getMinorUnits('SEK')).toBe(2);
+      expect(getMinorUnits('EUR')).toBe(2);
+    });
+
+    it('should know currencies with other minor units', () => {
+      expect(getMinorUnits('JPY')).toBe(0);
+      expect(getMinorUnits('kwd')).toBe(3);
+    });
+  });
+
+  describe('toMinorUnits', () => {
+    it('should parse whole and decimal amounts', () => {
+      expect(toMinorUnits('200', 'SEK')).toBe(20000n);
+      expect(toMinorUnits('9800.00', 'SEK')).toBe(980000n);
+      expect(toMinorUnits('0.5', 'SEK')).toBe(50n);
+      expect(toMinorUnits('1.234', 'KWD')).toBe(1234n);
+    });
+
+    it('should parse negative amounts', () => {
+      expect(toMinorUnits('-12.30', 'EUR')).toBe(-1230n);
+    });
+
+    it('should ignore trailing zeros beyond the minor units', () => {
+      expect(toMinorUnits('100.000', 'JPY')).toBe(100n);
+    });
+
+    it('should reject precision the currency does not have', () => {
+      expect(() => toMinorUnits('100.5', 'JPY')).toThrow(InvalidAmountError);
+      expect(() => toMinorUnits('0.001', 'EUR')).toThrow(InvalidAmountError);
+    });
+
+    it('should reject values that are not decimal numbers', () => {
+      for (const amount of ['', 'abc', '1e3', '1.', '.5', '1,5']) {
+        expect(() => toMinorUnits(amount, 'EUR')).toThrow(InvalidAmountError);
+      }
+    });
+
+    it('should stay exact beyond floating point precision', () => {
+      expect(toMinorUnits('90071992547409.93', 'EUR') + 1n).toBe(9007199254740994n);
+    });
+  });
+
+  describe('formatMinorUnits', () => {
+    it('should format with the currency decimals', () => {
+      expect(formatMinorUnits(980000n, 'SEK')).toBe('9800.00');
+      expect(formatMinorUnits(5n, 'EUR')).toBe('0.05');
+      expect(formatMinorUnits(350n, 'JPY')).toBe('350');
+      expect(formatMinorUnits(-1234n, 'KWD')).toBe('-1.234');
+    });
+
+    it('should round-trip parsed amounts', () => {
+      expect(formatMinorUnits(toMinorUnits('0.1', 'EUR') + toMinorUnits('0.2', 'EUR'), 'EUR')).toBe(
+        '0.30'
+      );
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { CircuitOpenError } from '../types/errors';
+import { createChildLogger } from './logger';
+
+const logger = createChildLogger({ service: 'circuit-breaker' });
+
+export const DEFAULT_FAILURE_THRESHOLD = 5;
+export const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+/**
+ * - closed: calls go through; consecutive failures are counted
+ * - open: calls fail fast with CircuitOpenError until `resetTimeoutMs` has passed
+ * - half-open: one trial call goes through; its result closes or re-opens the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial call is let through (default: 30000) */
+  resetTimeoutMs?: number;
+  /** Clock used for the reset timeout (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Stops calling a backend that keeps failing, so records fail fast instead of each
+ * waiting for its own timeouts and retries. State changes are logged.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly name: string,
+    options: CircuitBreakerOptions = {}
+  ) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Runs `fn` unless the circuit is open. Errors for which `isFailure` returns false -
+   * e.g. a not-found answer from a healthy backend - count as successful calls.
+   */
+  async execute<T>(
+    fn: () => Promise<T>,
+    isFailure: (error: unknown) => boolean = () => true
+  ): Promise<T> {
+    const state = this.getState();
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name);
+    }
+
+    const isTrial = state === 'half-open';
+    this.trialInFlight = isTrial;
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  private onSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private onFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = this.now();
+      if (this.state !== 'open') {
+        this.transition('open');
+      }
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const context = {
+      circuit: this.name,
+      from: this.state,
+      to,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+    this.state = to;
+
+    if (to === 'open') {
+      logger.warn({ ...context, resetTimeoutMs: this.resetTimeoutMs }, 'Circuit opened');
+    } else {
+      logger.info(context, 'Circuit state changed');
+    }
+  }
+}
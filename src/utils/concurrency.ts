@@ -0,0 +1,24 @@
+/**
+ * Runs `worker` over every item with at most `limit` invocations in flight.
+ * Results are returned in the same order as the input items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array<R>(items.length);
+  const poolSize = Math.max(1, Math.min(limit, items.length));
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: poolSize }, () => runNext()));
+
+  return results;
+}
@@ -0,0 +1,28 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+
+export interface DynamoDBClientOptions {
+  /** Endpoint override, e.g. a DynamoDB Local instance (default: DYNAMODB_ENDPOINT or AWS) */
+  endpoint?: string;
+  region?: string;
+  /** Attempts per request made by the SDK itself, including the first one (default: SDK default, 3) */
+  maxAttempts?: number;
+}
+
+/**
+ * Creates a DynamoDB document client that (un)marshalls plain JavaScript objects.
+ * Credentials come from the default AWS provider chain.
+ */
+export function createDynamoDBDocumentClient(
+  options: DynamoDBClientOptions = {}
+): DynamoDBDocumentClient {
+  const client = new DynamoDBClient({
+    endpoint: options.endpoint || process.env.DYNAMODB_ENDPOINT || undefined,
+    region: options.region || process.env.AWS_REGION || 'us-east-1',
+    maxAttempts: options.maxAttempts,
+  });
+
+  return DynamoDBDocumentClient.from(client, {
+    marshallOptions: { removeUndefinedValues: true },
+  });
+}
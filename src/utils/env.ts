@@ -0,0 +1,22 @@
+import { createChildLogger } from './logger';
+
+const logger = createChildLogger({ service: 'env' });
+
+/**
+ * Reads a positive integer setting from the environment. Unset and blank values yield
+ * undefined so the caller's default applies; invalid values are logged and ignored.
+ */
+export function readPositiveInteger(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    logger.warn({ [name]: raw }, 'Invalid positive integer setting, using default');
+    return undefined;
+  }
+
+  return value;
+}
@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+const deadlineStorage = new AsyncLocalStorage<number>();
+
+/**
+ * Runs `fn` with `deadline` (epoch milliseconds) as the time budget of all work it
+ * starts, so code far down the call chain - e.g. repository retries - can stay within the
+ * Lambda invocation. Without a deadline `fn` runs unbounded.
+ */
+export function withDeadline<T>(deadline: number | undefined, fn: () => T): T {
+  return deadline === undefined ? fn() : deadlineStorage.run(deadline, fn);
+}
+
+/**
+ * Milliseconds left until the current deadline (negative once it has passed), or
+ * undefined when no deadline is set
+ */
+export function getRemainingTime(now: number = Date.now()): number | undefined {
+  const deadline = deadlineStorage.getStore();
+  return deadline === undefined ? undefined : deadline - now;
+}
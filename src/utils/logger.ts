@@ -1,7 +1,35 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import pino from 'pino';
 
 const logLevel = (process.env.LOG_LEVEL || 'info').toLowerCase();
 
+/**
+ * Identifies the event a log line was written for, across service and repository loggers
+ */
+export interface LogContext {
+  correlationId?: string;
+  eventId?: string;
+  aggregateId?: string;
+  /** Position inside a KPL aggregated record */
+  subSequenceNumber?: number;
+  /** Position inside a batch of events decoded from one record */
+  eventIndex?: number;
+}
+
+const logContextStorage = new AsyncLocalStorage<LogContext>();
+
+export function getLogContext(): LogContext {
+  return logContextStorage.getStore() ?? {};
+}
+
+/**
+ * Runs `fn` with `context` added to every log line written while it runs, including
+ * lines from child loggers and from async work it starts
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContextStorage.run({ ...getLogContext(), ...context }, fn);
+}
+
 export const logger = pino({
   level: logLevel,
   formatters: {
@@ -9,6 +37,7 @@ export const logger = pino({
       return { level: label.toUpperCase() };
     },
   },
+  mixin: () => ({ ...getLogContext() }),
 });
 
 export function createChildLogger(context: Record<string, unknown>): pino.Logger {
@@ -0,0 +1,77 @@
+import { InvalidAmountError } from '../types/errors';
+
+const DEFAULT_MINOR_UNITS = 2;
+
+// ISO 4217 currencies whose minor unit differs from the default of 2 decimals
+const MINOR_UNITS_BY_CURRENCY: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+export function getMinorUnits(currencyCode: string): number {
+  return MINOR_UNITS_BY_CURRENCY[currencyCode.toUpperCase()] ?? DEFAULT_MINOR_UNITS;
+}
+
+/**
+ * Parses a decimal string (e.g. "9800.00") into an integer count of the currency's minor
+ * units, so amounts can be added and compared exactly. Amounts with more decimals than the
+ * currency allows are rejected rather than rounded.
+ */
+export function toMinorUnits(amount: string, currencyCode: string): bigint {
+  const match = DECIMAL_PATTERN.exec(amount.trim());
+  if (!match) {
+    throw new InvalidAmountError(amount, 'not a decimal number');
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const minorUnits = getMinorUnits(currencyCode);
+  const significantFraction = fraction.replace(/0+$/, '');
+
+  if (significantFraction.length > minorUnits) {
+    throw new InvalidAmountError(
+      amount,
+      `${currencyCode} allows at most ${minorUnits} decimal places`
+    );
+  }
+
+  const value = BigInt(whole + significantFraction.padEnd(minorUnits, '0'));
+  return sign ? -value : value;
+}
+
+/**
+ * Formats minor units back to a decimal string with the currency's number of decimals
+ */
+export function formatMinorUnits(value: bigint, currencyCode: string): string {
+  const minorUnits = getMinorUnits(currencyCode);
+  const digits = (value < 0n ? -value : value).toString().padStart(minorUnits + 1, '0');
+  const sign = value < 0n ? '-' : '';
+
+  if (minorUnits === 0) {
+    return `${sign}${digits}`;
+  }
+
+  return `${sign}${digits.slice(0, -minorUnits)}.${digits.slice(-minorUnits)}`;
+}
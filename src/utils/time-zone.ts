@@ -0,0 +1,89 @@
+/**
+ * Wall-clock date and time in a time zone. `month` is 1-based.
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function toZonedDateTime(epochMs: number, timeZone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatterFor(timeZone).formatToParts(epochMs)) {
+    parts[type] = Number(value);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: ((epochMs % 1000) + 1000) % 1000,
+  };
+}
+
+/**
+ * Epoch milliseconds of a wall-clock time in `timeZone`. Out-of-range fields roll over
+ * like Date.UTC (day 32 is the 1st of the next month). A wall time skipped by a DST
+ * transition resolves to the instant it would have had with the offset before the jump.
+ */
+export function fromZonedDateTime(dateTime: ZonedDateTime, timeZone: string): number {
+  const asUtc = utcOf(dateTime);
+  const firstGuess = asUtc - offsetAt(asUtc, timeZone);
+  const offset = offsetAt(firstGuess, timeZone);
+  return asUtc - offset;
+}
+
+/**
+ * Day of the week of a wall-clock date, 0 = Sunday
+ */
+export function weekdayOf({ year, month, day }: ZonedDateTime): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function offsetAt(epochMs: number, timeZone: string): number {
+  return utcOf(toZonedDateTime(epochMs, timeZone)) - epochMs;
+}
+
+function utcOf({ year, month, day, hour, minute, second, millisecond }: ZonedDateTime): number {
+  return Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import * as yup from 'yup';
+import { supportedVersions, validateVersioned, versionedSchema } from '../versioned-event-schema';
+import { validateEvent } from '../../user-limit/validation/event-schemas';
+import { EventType } from '../../user-limit/models/events';
+
+// v1 carried the limit as a number in `limit`, v2 renamed it to `limitAmount`,
+// v3 (current) uses a decimal string in `value`
+const v1Schema = yup.object({ userId: yup.string().required(), limit: yup.number().required() });
+const v2Schema = yup.object({
+  userId: yup.string().required(),
+  limitAmount: yup.number().required(),
+});
+const currentSchema = yup.object({
+  userId: yup.string().required(),
+  value: yup.string().required(),
+});
+
+const versioned = versionedSchema(currentSchema, [
+  {
+    version: 2,
+    schema: v2Schema,
+    upcast: ({ limitAmount, ...event }) => ({ ...event, value: String(limitAmount) }),
+  },
+  {
+    version: 1,
+    schema: v1Schema,
+    upcast: ({ limit, ...event }) => ({ ...event, limitAmount: limit }),
+  },
+]);
+
+describe('versionedSchema', () => {
+  it('should derive the current version from the previous ones', () => {
+    expect(versioned.currentVersion).toBe(3);
+    expect(supportedVersions(versioned)).toEqual([1, 2, 3]);
+    expect(versionedSchema(currentSchema).currentVersion).toBe(1);
+  });
+
+  it('should reject gaps between previous versions', () => {
+    expect(() =>
+      versionedSchema(currentSchema, [
+        { version: 1, schema: v1Schema, upcast: (e) => e },
+        { version: 3, schema: v2Schema, upcast: (e) => e },
+      ])
+    ).toThrow('Schema versions must be consecutive');
+  });
+});
+
+describe('validateVersioned', () => {
+  it('should validate current events as they are', async () => {
+    const result = await validateVersioned(versioned, 'TEST', { userId: 'u', value: '10' }, 3);
+
+    expect(result).toEqual({
+      supported: true,
+      data: { userId: 'u', value: '10', schemaVersion: 3 },
+    });
+  });
+
+  it('should upcast old events step by step to the current shape', async () => {
+    const result = await validateVersioned(versioned, 'TEST', { userId: 'u', limit: 10 }, 1);
+
+    expect(result).toEqual({
+      supported: true,
+      data: { userId: 'u', value: '10', schemaVersion: 3 },
+    });
+  });
+
+  it('should validate old events against the schema of their version', async () => {
+    await expect(
+      validateVersioned(versioned, 'TEST', { userId: 'u', value: '10' }, 2)
+    ).rejects.toThrow('limitAmount is a required field');
+  });
+
+  it('should report unsupported versions', async () => {
+    const result = await validateVersioned(versioned, 'TEST', { userId: 'u' }, 7);
+
+    expect(result).toEqual({
+      supported: false,
+      error: 'Unsupported schemaVersion 7 for TEST (supported: 1, 2, 3)',
+    });
+  });
+});
+
+describe('validateEvent - schema versions', () => {
+  const resetEvent = {
+    eventId: 'event-1',
+    eventType: EventType.USER_LIMIT_RESET,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    userId: 'user-1',
+    userLimitId: 'limit-1',
+    type: 'DEPOSIT',
+    period: 'DAY',
+    brandId: 'brand-1',
+    currencyCode: 'SEK',
+  };
+
+  it('should treat events without a schemaVersion as version 1', async () => {
+    const result = await validateEvent(resetEvent);
+
+    expect(result.isValid).toBe(true);
+    expect(result.validatedData?.schemaVersion).toBe(1);
+  });
+
+  it('should report unsupported versions separately from validation errors', async () => {
+    const result = await validateEvent({ ...resetEvent, schemaVersion: 2 });
+
+    expect(result).toMatchObject({
+      isValid: false,
+      reason: 'unsupported-schema-version',
+      errors: ['Unsupported schemaVersion 2 for USER_LIMIT_RESET (supported: 1)'],
+    });
+  });
+});
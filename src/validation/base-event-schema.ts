@@ -0,0 +1,33 @@
+import * as yup from 'yup';
+import { EventType } from '../user-limit/models/events';
+
+/**
+ * A string field restricted to the values of a string enum, typed as that enum
+ */
+export function enumField<T extends string>(values: Record<string, T>): yup.StringSchema<T> {
+  return yup.string<T>().oneOf(Object.values(values)).required();
+}
+
+/**
+ * Pins `eventType` to one value, which makes the inferred event types a discriminated union
+ */
+export function eventTypeField<T extends EventType>(eventType: T): yup.StringSchema<T> {
+  return yup.string<T>().oneOf([eventType]).required();
+}
+
+// Fields shared by every event on the stream, regardless of aggregate
+export const baseEventSchema = yup.object({
+  eventId: yup.string().required(),
+  eventType: enumField(EventType),
+  timestamp: yup.string().required(),
+  userId: yup.string().required(),
+  aggregateId: yup.string().optional(),
+  sequenceNumber: yup.number().integer().min(0).optional(),
+  correlationId: yup.string().optional(),
+  traceparent: yup.string().optional(),
+  tracestate: yup.string().optional(),
+  source: yup.string().optional(),
+  schemaVersion: yup.number().integer().min(1).optional(),
+});
+
+export type BaseEvent = yup.InferType<typeof baseEventSchema>;
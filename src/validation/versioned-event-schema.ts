@@ -0,0 +1,97 @@
+import * as yup from 'yup';
+
+/** Events without a schemaVersion are treated as version 1 */
+export const DEFAULT_SCHEMA_VERSION = 1;
+
+/**
+ * Turns an event of one schema version into the shape of the next version
+ */
+export type Upcaster = (event: Record<string, unknown>) => Record<string, unknown>;
+
+export interface PreviousSchemaVersion {
+  version: number;
+  schema: yup.AnyObjectSchema;
+  /** Converts a validated event of `version` into `version + 1` */
+  upcast: Upcaster;
+}
+
+/**
+ * All schema versions accepted for one event type. Events of a previous version are
+ * validated against their own schema, upcast step by step to the current version and
+ * validated again, so processors only ever see the current shape.
+ */
+export interface VersionedEventSchema {
+  currentVersion: number;
+  schema: yup.AnyObjectSchema;
+  previousVersions: PreviousSchemaVersion[];
+}
+
+export function versionedSchema(
+  schema: yup.AnyObjectSchema,
+  previousVersions: PreviousSchemaVersion[] = []
+): VersionedEventSchema {
+  const sorted = [...previousVersions].sort((a, b) => a.version - b.version);
+  const currentVersion =
+    sorted.length > 0 ? sorted[sorted.length - 1].version + 1 : DEFAULT_SCHEMA_VERSION;
+
+  sorted.forEach((previous, index) => {
+    if (previous.version !== sorted[0].version + index) {
+      throw new Error(`Schema versions must be consecutive, missing ${sorted[0].version + index}`);
+    }
+  });
+
+  return { currentVersion, schema, previousVersions: sorted };
+}
+
+export function supportedVersions(versioned: VersionedEventSchema): number[] {
+  return [...versioned.previousVersions.map((p) => p.version), versioned.currentVersion];
+}
+
+export type VersionedValidationResult =
+  { supported: true; data: Record<string, unknown> } | { supported: false; error: string };
+
+/**
+ * Validates an event of any supported version and returns it in the current version.
+ * Throws yup.ValidationError when the event does not match the schema of its version.
+ */
+export async function validateVersioned(
+  versioned: VersionedEventSchema,
+  eventType: string,
+  data: unknown,
+  version: number = DEFAULT_SCHEMA_VERSION
+): Promise<VersionedValidationResult> {
+  if (version === versioned.currentVersion) {
+    return { supported: true, data: await validateCurrent(versioned, data) };
+  }
+
+  const firstStep = versioned.previousVersions.findIndex((p) => p.version === version);
+  if (firstStep === -1) {
+    return {
+      supported: false,
+      error:
+        `Unsupported schemaVersion ${version} for ${eventType} ` +
+        `(supported: ${supportedVersions(versioned).join(', ')})`,
+    };
+  }
+
+  let event = (await versioned.previousVersions[firstStep].schema.validate(data, {
+    abortEarly: false,
+  })) as Record<string, unknown>;
+
+  for (const previous of versioned.previousVersions.slice(firstStep)) {
+    event = previous.upcast(event);
+  }
+
+  return { supported: true, data: await validateCurrent(versioned, event) };
+}
+
+async function validateCurrent(
+  versioned: VersionedEventSchema,
+  data: unknown
+): Promise<Record<string, unknown>> {
+  const validated = (await versioned.schema.validate(data, {
+    abortEarly: false,
+  })) as Record<string, unknown>;
+
+  return { ...validated, schemaVersion: versioned.currentVersion };
+}